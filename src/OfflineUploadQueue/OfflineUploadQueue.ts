@@ -0,0 +1,331 @@
+import {
+  type ApolloClient,
+  type ApolloLink,
+  gql,
+  type OperationVariables,
+} from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { ExtractableFile } from '../extractFiles/isExtractableFile.js';
+import { UploadNetworkError } from '../UploadHttpLink/errors.js';
+import type { UploadHttpLinkContextOptions } from '../UploadHttpLink/UploadHttpLink.js';
+import { isNetworkError, setObjectPath } from '../UploadHttpLink/utils.js';
+import { getFileDetails } from '../UploadHttpLink/validateFiles.js';
+import {
+  createMemoryQueueStorage,
+  type OfflineQueueStorage,
+  type QueuedUpload,
+} from './storage.js';
+
+/**
+ * Outcome of replaying a queued operation.
+ * @template T Extractable file type.
+ */
+export interface ReplayResult<T = ExtractableFile> {
+  /** Replayed operation. */
+  upload: QueuedUpload<T>;
+  /** Result of the operation, if it succeeded. */
+  result?: ApolloLink.Result;
+  /** Error the operation failed with, if it failed. */
+  error?: unknown;
+}
+
+/**
+ * GraphQL request body of an operation to queue.
+ */
+export interface QueueableOperationBody {
+  /** GraphQL operation document. */
+  query: string;
+  /** GraphQL variables, with the files replaced by `null`. */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Options for an {@linkcode OfflineUploadQueue}.
+ * @template T Extractable file type.
+ */
+export interface OfflineUploadQueueOptions<T = ExtractableFile> {
+  /**
+   * Persists the queued operations. Defaults to an in memory storage; see
+   * `createIndexedDBQueueStorage` to keep them across page loads.
+   */
+  storage?: OfflineQueueStorage<T>;
+  /**
+   * Checks if the client is offline, in which case operations are queued
+   * without being sent. Defaults to checking
+   * [`navigator.onLine`](https://developer.mozilla.org/en-US/docs/Web/API/Navigator/onLine).
+   * @returns Is the client offline.
+   */
+  isOffline?(): boolean;
+  /**
+   * Decides whether to queue a failed operation. Defaults to queuing network
+   * errors, where no response was received and `fetch` rejected with a
+   * `TypeError`, or a replay failed with an `UploadNetworkError` caused by
+   * one. Replays failing this way stay queued.
+   * @param error Error the operation failed with.
+   * @param operation GraphQL operation.
+   * @returns Should the operation be queued.
+   */
+  shouldQueue?(error: unknown, operation?: ApolloLink.Operation): boolean;
+  /**
+   * Gets the key identifying duplicate operations, which are queued once.
+   * Defaults to the operation name, variables and file names, sizes and types.
+   * @param upload Operation to queue.
+   * @returns Deduplication key.
+   */
+  getKey?(upload: Omit<QueuedUpload<T>, 'id' | 'key' | 'createdAt'>): string;
+  /**
+   * Receives the outcome of each replayed operation that left the queue.
+   * @param replayResult Replay outcome.
+   */
+  onReplayResult?(replayResult: ReplayResult<T>): void;
+  /**
+   * Replays the queue when the browser goes back online. Defaults to `true`.
+   */
+  replayOnReconnect?: boolean;
+}
+
+/**
+ * Checks if the browser reports being offline.
+ */
+function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Checks if an operation failed with a network error, as a `fetch` rejection
+ * or, once replayed through the link chain, an `UploadNetworkError`.
+ */
+function isOfflineError(error: unknown): boolean {
+  return (
+    isNetworkError(error) ||
+    (UploadNetworkError.is(error) && isNetworkError(error.cause))
+  );
+}
+
+/**
+ * Creates a unique ID for a queued operation.
+ */
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * An opt-in queue that stores mutations with files that fail while offline,
+ * through a pluggable storage adapter, and replays them in order when
+ * connectivity returns. Give it to upload links with the `offlineQueue`
+ * option.
+ *
+ * Queued operations fail with an `UploadQueuedError`. Replays are sent with
+ * the Apollo Client the operation was first sent with, through its whole link
+ * chain, or with the client given to {@linkcode OfflineUploadQueue.replay}
+ * after a reload.
+ * @template T Extractable file type.
+ * @example
+ * ```ts
+ * const offlineQueue = new OfflineUploadQueue({
+ *   storage: createIndexedDBQueueStorage(),
+ *   onReplayResult: ({ upload, result, error }) => {
+ *     console.log(upload.operationName, result ?? error);
+ *   },
+ * });
+ *
+ * const client = new ApolloClient({
+ *   cache: new InMemoryCache(),
+ *   link: new UploadHttpLink({ uri: '/graphql', offlineQueue }),
+ * });
+ *
+ * // Replay operations queued before the page was reloaded.
+ * offlineQueue.replay(client);
+ * ```
+ */
+export class OfflineUploadQueue<T = ExtractableFile> {
+  private storage: OfflineQueueStorage<T>;
+  private options: OfflineUploadQueueOptions<T>;
+  private client?: ApolloClient;
+  private replaying?: Promise<void>;
+  private enqueuing: Promise<unknown> = Promise.resolve();
+  private stopReplayOnReconnect?: () => void;
+
+  constructor(options: OfflineUploadQueueOptions<T> = {}) {
+    const {
+      storage = createMemoryQueueStorage<T>(),
+      replayOnReconnect = true,
+    } = options;
+
+    this.storage = storage;
+    this.options = options;
+
+    if (
+      replayOnReconnect &&
+      typeof window !== 'undefined' &&
+      typeof window.addEventListener === 'function'
+    ) {
+      const onOnline = () => {
+        this.replay().catch(() => {});
+      };
+      window.addEventListener('online', onOnline);
+      this.stopReplayOnReconnect = () =>
+        window.removeEventListener('online', onOnline);
+    }
+  }
+
+  /**
+   * Checks if the client is offline, in which case operations are queued
+   * without being sent.
+   * @returns Is the client offline.
+   */
+  isOffline(): boolean {
+    return (this.options.isOffline ?? isBrowserOffline)();
+  }
+
+  /**
+   * Checks if a failed operation should be queued.
+   * @param error Error the operation failed with.
+   * @param operation GraphQL operation.
+   * @returns Should the operation be queued.
+   */
+  shouldQueue(error: unknown, operation?: ApolloLink.Operation): boolean {
+    return (this.options.shouldQueue ?? isOfflineError)(error, operation);
+  }
+
+  /**
+   * Gets the queued operations, in replay order.
+   * @returns Queued operations.
+   */
+  async getAll(): Promise<Array<QueuedUpload<T>>> {
+    return (await this.storage.getAll()).sort(
+      (a, b) => a.createdAt - b.createdAt
+    );
+  }
+
+  /**
+   * Queues an operation, unless a duplicate is queued already. Upload links
+   * call it for each mutation with files that fails while offline.
+   * @param operation GraphQL operation.
+   * @param body GraphQL request body, with the files replaced by `null`.
+   * @param files Files and their object paths within the request body.
+   * @returns Queued operation, or its queued duplicate.
+   */
+  enqueue(
+    operation: ApolloLink.Operation,
+    body: QueueableOperationBody,
+    files: Map<T, Array<ObjectPath>>
+  ): Promise<QueuedUpload<T>> {
+    this.client = operation.client;
+
+    // Enqueued one at a time, so concurrent duplicates are queued once.
+    const queued = this.enqueuing.then(() =>
+      this.enqueueUpload(operation, body, files)
+    );
+    this.enqueuing = queued.catch(() => {});
+
+    return queued;
+  }
+
+  /**
+   * Replays the queued operations in order. Operations that succeed, or fail
+   * for a reason that wouldn’t queue them, leave the queue and are reported
+   * to `onReplayResult`. Replaying stops at the first operation that fails
+   * the way queued operations do, e.g. while still offline.
+   * @param client Apollo Client to send the operations with. Defaults to the
+   * client the last operation was queued from.
+   */
+  replay(client: ApolloClient | undefined = this.client): Promise<void> {
+    if (client) this.client = client;
+
+    this.replaying ??= this.replayQueue(client).finally(() => {
+      this.replaying = undefined;
+    });
+
+    return this.replaying;
+  }
+
+  /**
+   * Stops replaying the queue when the browser goes back online.
+   */
+  dispose(): void {
+    this.stopReplayOnReconnect?.();
+  }
+
+  private async enqueueUpload(
+    operation: ApolloLink.Operation,
+    body: QueueableOperationBody,
+    files: Map<T, Array<ObjectPath>>
+  ): Promise<QueuedUpload<T>> {
+    const upload: Omit<QueuedUpload<T>, 'id' | 'key' | 'createdAt'> = {
+      ...(operation.operationName
+        ? { operationName: operation.operationName }
+        : {}),
+      query: body.query,
+      variables: body.variables ?? {},
+      files: Array.from(files, ([file, paths]) => ({ file, paths })),
+    };
+
+    const key = this.options.getKey
+      ? this.options.getKey(upload)
+      : JSON.stringify([
+          upload.operationName,
+          upload.variables,
+          upload.files.map(({ file, paths }) => {
+            const { name, size, type } = getFileDetails(file, paths);
+            return [paths, name, size, type];
+          }),
+        ]);
+
+    const duplicate = (await this.storage.getAll()).find(
+      (queued) => queued.key === key
+    );
+    if (duplicate) return duplicate;
+
+    const queued: QueuedUpload<T> = {
+      id: createId(),
+      key,
+      createdAt: Date.now(),
+      ...upload,
+    };
+    await this.storage.put(queued);
+
+    return queued;
+  }
+
+  private async replayQueue(client?: ApolloClient): Promise<void> {
+    if (!client || this.isOffline()) return;
+
+    for (const upload of await this.getAll()) {
+      const body = {
+        variables: JSON.parse(
+          JSON.stringify(upload.variables)
+        ) as OperationVariables,
+      };
+      upload.files.forEach(({ file, paths }) => {
+        paths.forEach((path) => setObjectPath(body, path, file));
+      });
+
+      let replayResult: ReplayResult<T>;
+      try {
+        const { data, extensions } = await client.mutate({
+          mutation: gql(upload.query),
+          variables: body.variables,
+          context: {
+            upload: {
+              offlineQueue: false,
+            } satisfies UploadHttpLinkContextOptions,
+          },
+        });
+        replayResult = {
+          upload,
+          result: {
+            data: data as ApolloLink.Result['data'],
+            ...(extensions ? { extensions } : {}),
+          },
+        };
+      } catch (error) {
+        if (this.shouldQueue(error)) return;
+        replayResult = { upload, error };
+      }
+
+      await this.storage.delete(upload.id);
+      this.options.onReplayResult?.(replayResult);
+    }
+  }
+}
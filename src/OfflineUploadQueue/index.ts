@@ -0,0 +1,2 @@
+export * from './OfflineUploadQueue.js';
+export * from './storage.js';
@@ -0,0 +1,133 @@
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { ExtractableFile } from '../extractFiles/isExtractableFile.js';
+
+/**
+ * A GraphQL operation with files, stored in an offline upload queue.
+ * @template T Extractable file type.
+ */
+export interface QueuedUpload<T = ExtractableFile> {
+  /** Unique ID. */
+  id: string;
+  /** Key identifying duplicate operations. */
+  key: string;
+  /** When the operation was queued, in milliseconds since the epoch. */
+  createdAt: number;
+  /** Name of the GraphQL operation. */
+  operationName?: string;
+  /** GraphQL operation document. */
+  query: string;
+  /** GraphQL variables, with the files replaced by `null`. */
+  variables: Record<string, unknown>;
+  /** Files and their object paths within the operation. */
+  files: Array<{ file: T; paths: Array<ObjectPath> }>;
+}
+
+/**
+ * Persists the operations of an offline upload queue.
+ * @template T Extractable file type.
+ */
+export interface OfflineQueueStorage<T = ExtractableFile> {
+  /**
+   * Gets every stored operation.
+   * @returns Stored operations.
+   */
+  getAll(): Promise<Array<QueuedUpload<T>>>;
+  /**
+   * Stores an operation.
+   * @param upload Operation to store.
+   */
+  put(upload: QueuedUpload<T>): Promise<void>;
+  /**
+   * Deletes a stored operation.
+   * @param id ID of the operation.
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Creates an offline queue storage adapter that keeps operations in memory,
+ * e.g. for tests. They are lost when the page or process exits.
+ * @returns Storage adapter.
+ */
+export function createMemoryQueueStorage<
+  T = ExtractableFile,
+>(): OfflineQueueStorage<T> {
+  const uploads = new Map<string, QueuedUpload<T>>();
+
+  return {
+    async getAll() {
+      return Array.from(uploads.values());
+    },
+    async put(upload) {
+      uploads.set(upload.id, upload);
+    },
+    async delete(id) {
+      uploads.delete(id);
+    },
+  };
+}
+
+/**
+ * Options for an IndexedDB offline queue storage adapter.
+ */
+export interface IndexedDBQueueStorageOptions {
+  /** Database name. Defaults to `apollo-upload-client`. */
+  databaseName?: string;
+  /** Object store name. Defaults to `offline-uploads`. */
+  storeName?: string;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function promisifyRequest<Result>(
+  request: IDBRequest<Result>
+): Promise<Result> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Creates an offline queue storage adapter that persists operations and their
+ * files in [IndexedDB](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API),
+ * which stores `File` and `Blob` instances natively.
+ * @param options Options.
+ * @returns Storage adapter.
+ */
+export function createIndexedDBQueueStorage(
+  options: IndexedDBQueueStorageOptions = {}
+): OfflineQueueStorage {
+  const {
+    databaseName = 'apollo-upload-client',
+    storeName = 'offline-uploads',
+  } = options;
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName, { keyPath: 'id' });
+      };
+      database = promisifyRequest(request);
+    }
+    return (await database).transaction(storeName, mode).objectStore(storeName);
+  };
+
+  return {
+    async getAll() {
+      return promisifyRequest(
+        (await getStore('readonly')).getAll() as IDBRequest<Array<QueuedUpload>>
+      );
+    },
+    async put(upload) {
+      await promisifyRequest((await getStore('readwrite')).put(upload));
+    },
+    async delete(id) {
+      await promisifyRequest((await getStore('readwrite')).delete(id));
+    },
+  };
+}
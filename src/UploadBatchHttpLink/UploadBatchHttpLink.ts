@@ -0,0 +1,307 @@
+import { throwError } from 'rxjs';
+import { ApolloLink } from '@apollo/client';
+import { BatchLink } from '@apollo/client/link/batch';
+import type { BaseBatchHttpLink } from '@apollo/client/link/batch-http';
+import {
+  defaultPrinter,
+  fallbackHttpConfig,
+  parseAndCheckHttpResponse,
+  selectHttpOptionsAndBodyInternal,
+  selectURI,
+} from '@apollo/client/link/http';
+import { filterOperationVariables } from '@apollo/client/link/utils';
+import { Observable } from '@apollo/client/utilities';
+import { maybe } from '@apollo/client/utilities/internal/globals';
+import { extractFiles } from '../extractFiles/extractFiles.js';
+import {
+  type ExtractableFile,
+  isExtractableFile,
+  type UploadableFile,
+} from '../extractFiles/isExtractableFile.js';
+import type { TraversalHandler } from '../extractFiles/traversalHandlers.js';
+import {
+  getPreflightHeaders,
+  type PreflightHeaders,
+} from '../UploadHttpLink/csrfPrevention.js';
+import { formDataAppendFile } from '../UploadHttpLink/formDataAppendFile.js';
+import type {
+  ExtractableFileMatcher,
+  FormDataFileAppender,
+} from '../UploadHttpLink/UploadHttpLink.js';
+import {
+  backupFetch,
+  compact,
+  createFileEntries,
+  serializeFetchParameter,
+} from '../UploadHttpLink/utils.js';
+
+/**
+ * Options for creating a batching upload link.
+ */
+export interface UploadBatchHttpLinkOptions<
+  T extends UploadableFile = ExtractableFile,
+>
+  extends BaseBatchHttpLink.Options {
+  /**
+   * [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData) class.
+   *  Defaults to the {@linkcode FormData} global.
+   */
+  FormData?: typeof FormData;
+  /**
+   * Matches extractable files in the GraphQL operations.
+   * Defaults to {@linkcode isExtractableFile}.
+   */
+  isExtractableFile?: ExtractableFileMatcher<T>;
+  /**
+   * Customizes how extracted files are appended to the [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData) instance.
+   * Defaults to {@linkcode formDataAppendFile}.
+   */
+  formDataAppendFile?: FormDataFileAppender<T>;
+  /**
+   * Traversal handlers for values in the GraphQL variables that aren’t arrays
+   * or plain objects, such as input class instances, to extract files from.
+   * Defaults to none; {@linkcode builtInTraversalHandlers} opt in to `Map`
+   * and `Set` instances and objects with a `toJSON` method.
+   */
+  traversalHandlers?: ReadonlyArray<TraversalHandler>;
+  /**
+   * Headers multipart batches carry for servers with CSRF prevention, unless
+   * already set, for the first operation of the batch. Defaults to
+   * `apollo-require-preflight`.
+   */
+  preflightHeaders?: PreflightHeaders;
+}
+
+/**
+ * Creates a
+ * [terminating Apollo Link](https://www.apollographql.com/docs/react/api/link/introduction/#the-terminating-link)
+ * that batches operations collected within an interval, like
+ * [`BatchHttpLink`](https://www.apollographql.com/docs/react/api/link/apollo-link-batch-http),
+ * into a single request. If any of the operations contain files, the batch is
+ * sent as a
+ * [GraphQL multipart request](https://github.com/jaydenseric/graphql-multipart-request-spec#batching)
+ * with an `operations` array, where map paths are prefixed with the operation
+ * index and a file shared by several operations is sent once.
+ * @see [GraphQL multipart request spec batching](https://github.com/jaydenseric/graphql-multipart-request-spec#batching).
+ * @example
+ * ```js
+ * import { ApolloClient, InMemoryCache } from "@apollo/client";
+ * import { UploadBatchHttpLink } from '@hyperse/apollo-upload-client';
+ *
+ * const client = new ApolloClient({
+ *   cache: new InMemoryCache(),
+ *   link: new UploadBatchHttpLink({
+ *     uri: '/graphql',
+ *     batchMax: 5,
+ *     batchInterval: 20,
+ *   }),
+ * });
+ * ```
+ */
+export class UploadBatchHttpLink<
+  T extends UploadableFile = ExtractableFile,
+> extends ApolloLink {
+  private batcher: BatchLink;
+
+  constructor(options: UploadBatchHttpLinkOptions<T> = {}) {
+    super();
+
+    const {
+      uri = '/graphql',
+      fetch: preferredFetch,
+      print = defaultPrinter,
+      includeExtensions,
+      preserveHeaderCase,
+      batchInterval = 10,
+      batchDebounce,
+      batchMax = 10,
+      batchKey,
+      includeUnusedVariables = false,
+      FormData: CustomFormData,
+      isExtractableFile:
+        customIsExtractableFile = isExtractableFile as ExtractableFileMatcher<T>,
+      formDataAppendFile:
+        customFormDataAppendFile = formDataAppendFile as FormDataFileAppender<T>,
+      traversalHandlers = [],
+      preflightHeaders = 'apollo-require-preflight',
+      ...requestOptions
+    } = options;
+
+    const linkConfig = {
+      http: compact({ includeExtensions, preserveHeaderCase }),
+      options: requestOptions.fetchOptions,
+      credentials: requestOptions.credentials,
+      headers: requestOptions.headers,
+    };
+
+    const getContextConfig = (operation: ApolloLink.Operation) => {
+      const context = operation.getContext();
+      return {
+        http: context.http,
+        options: context.fetchOptions,
+        credentials: context.credentials,
+        headers: context.headers,
+      };
+    };
+
+    const batchHandler: BatchLink.BatchHandler = (operations) => {
+      const chosenURI = selectURI(operations[0], uri);
+      const contextConfig = getContextConfig(operations[0]);
+
+      const optsAndBody = operations.map((operation) => {
+        const result = selectHttpOptionsAndBodyInternal(
+          operation,
+          print,
+          fallbackHttpConfig,
+          linkConfig,
+          contextConfig
+        );
+
+        if (result.body.variables && !includeUnusedVariables) {
+          result.body.variables = filterOperationVariables(
+            result.body.variables,
+            operation.query
+          );
+        }
+
+        return result;
+      });
+
+      const options = optsAndBody[0].options;
+
+      if (options.method === 'GET') {
+        return throwError(
+          () => new Error('UploadBatchHttpLink does not support GET requests')
+        );
+      }
+
+      // Extract the files of each operation, prefixing their object paths with
+      // the operation index and merging files shared across operations.
+      const files = new Map<ExtractableFile, Array<string>>();
+      const clones = optsAndBody.map(({ body }, index) => {
+        const extraction = extractFiles(
+          body,
+          customIsExtractableFile as ExtractableFileMatcher<ExtractableFile>,
+          String(index),
+          traversalHandlers
+        );
+
+        extraction.files.forEach((paths, file) => {
+          const filePaths = files.get(file);
+          if (filePaths) {
+            filePaths.push(...paths);
+          } else {
+            files.set(file, [...paths]);
+          }
+        });
+
+        return extraction.clone;
+      });
+
+      if (files.size) {
+        // Servers with CSRF prevention only accept multipart requests with a
+        // non-simple header.
+        const headers: Record<string, string> = { ...options.headers };
+        const headerNames = Object.keys(headers).map((name) =>
+          name.toLowerCase()
+        );
+        Object.entries(
+          getPreflightHeaders(preflightHeaders, operations[0])
+        ).forEach(([name, value]) => {
+          if (!headerNames.includes(name.toLowerCase())) headers[name] = value;
+        });
+
+        // Automatically set content-type to multipart/form-data
+        delete headers['content-type'];
+        options.headers = headers;
+
+        const RuntimeFormData = CustomFormData || FormData;
+        const form = new RuntimeFormData();
+
+        form.append('operations', serializeFetchParameter(clones, 'Payload'));
+
+        const fileEntries = createFileEntries(files);
+
+        const map: Record<string, Array<string>> = {};
+        fileEntries.forEach(({ fieldName, paths }) => {
+          map[fieldName] = paths;
+        });
+        form.append('map', JSON.stringify(map));
+
+        fileEntries.forEach(({ fieldName, file }) => {
+          (customFormDataAppendFile as FormDataFileAppender<ExtractableFile>)(
+            form,
+            fieldName,
+            file
+          );
+        });
+
+        options.body = form;
+      } else {
+        try {
+          options.body = JSON.stringify(clones);
+        } catch (parseError) {
+          return throwError(() => parseError);
+        }
+      }
+
+      let controller: AbortController | undefined;
+      if (!options.signal && typeof AbortController !== 'undefined') {
+        controller = new AbortController();
+        options.signal = controller.signal;
+      }
+
+      return new Observable((observer) => {
+        // Prefer linkOptions.fetch (preferredFetch) if provided, and otherwise fall back to the *current* global window.
+        const runtimeFetch =
+          preferredFetch || maybe(() => fetch) || backupFetch;
+
+        runtimeFetch!(chosenURI, options)
+          .then((response) => {
+            // Forward the response on the context of every operation.
+            operations.forEach((operation) =>
+              operation.setContext({ response })
+            );
+            return response;
+          })
+          .then(parseAndCheckHttpResponse(operations))
+          .then((result) => {
+            controller = undefined;
+            observer.next(result as Array<ApolloLink.Result>);
+            observer.complete();
+          })
+          .catch((error) => {
+            controller = undefined;
+            observer.error(error);
+          });
+
+        // Cleanup function.
+        return () => {
+          // Abort fetch. It’s ok to signal an abort even when not fetching.
+          if (controller) {
+            controller.abort();
+          }
+        };
+      });
+    };
+
+    this.batcher = new BatchLink({
+      batchDebounce,
+      batchInterval,
+      batchMax,
+      batchKey:
+        batchKey ||
+        ((operation) =>
+          selectURI(operation, uri) +
+          JSON.stringify(getContextConfig(operation))),
+      batchHandler,
+    });
+  }
+
+  request(
+    operation: ApolloLink.Operation,
+    forward: ApolloLink.ForwardFunction
+  ): Observable<ApolloLink.Result> {
+    return this.batcher.request(operation, forward);
+  }
+}
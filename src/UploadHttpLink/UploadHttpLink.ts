@@ -1,3 +1,4 @@
+import type { Subscription } from 'rxjs';
 import { ApolloLink, defaultPrinter } from '@apollo/client';
 import { BaseHttpLink } from '@apollo/client/link/http';
 import { parseAndCheckHttpResponse } from '@apollo/client/link/http';
@@ -7,21 +8,91 @@ import {
 } from '@apollo/client/link/http';
 import { selectURI } from '@apollo/client/link/http';
 import { filterOperationVariables } from '@apollo/client/link/utils';
-import { isSubscriptionOperation, Observable } from '@apollo/client/utilities';
+import {
+  isMutationOperation,
+  isSubscriptionOperation,
+  Observable,
+  print as graphqlPrint,
+} from '@apollo/client/utilities';
 import { maybe } from '@apollo/client/utilities/internal/globals';
 import { extractFiles } from '../extractFiles/extractFiles.js';
 import {
   type ExtractableFile,
   isExtractableFile,
+  type UploadableFile,
 } from '../extractFiles/isExtractableFile.js';
+import type { TraversalHandler } from '../extractFiles/traversalHandlers.js';
+import type { OfflineUploadQueue } from '../OfflineUploadQueue/OfflineUploadQueue.js';
+import type { UploadTracker } from '../UploadTracker/UploadTracker.js';
+import {
+  type ChunkedUploadOptions,
+  uploadFileInChunks,
+} from './chunkedUpload.js';
+import {
+  getPreflightHeaders,
+  isCsrfRejection,
+  type PreflightHeaders,
+} from './csrfPrevention.js';
+import { dedupeFiles, type DedupeFilesOptions } from './dedupeFiles.js';
+import {
+  type DirectUpload,
+  type DirectUploadOptions,
+  uploadFilesDirectly,
+} from './directUpload.js';
+import {
+  PayloadTooLargeError,
+  UploadCsrfError,
+  type UploadErrorDetails,
+  UploadQueuedError,
+  UploadTimeoutError,
+} from './errors.js';
 import { formDataAppendFile } from './formDataAppendFile.js';
+import { inlineFiles } from './inlineFiles.js';
+import { isPayloadTooLarge, mapUploadError } from './mapUploadError.js';
+import type { MultipartEncoder } from './multipartEncoder.js';
+import { getPersistedQueryError } from './persistedQuery.js';
+import { isMultipartResponse, readMultipartBody } from './readMultipartBody.js';
+import {
+  type FileMetadata,
+  type FileTransform,
+  type TransformedFiles,
+  transformFiles,
+} from './transformFile.js';
+import { createTusUploadProtocol } from './tusUploadProtocol.js';
+import type {
+  ActiveUpload,
+  UploadCancelHandler,
+} from './uploadCancellation.js';
+import {
+  createUploadDebugger,
+  type UploadDebugOptions,
+} from './uploadDebug.js';
+import {
+  createUploadProgressReporter,
+  type RequestBodyProgress,
+  type UploadProgressHandler,
+} from './uploadProgress.js';
+import { retryUpload, type UploadRetryOptions } from './uploadRetry.js';
+import type { UploadScheduler } from './uploadScheduler.js';
 import {
   backupFetch,
   compact,
   createAbortController,
+  createAbortError,
+  createFileEntries,
+  getHeaderEntries,
+  markFetchError,
   noop,
   serializeFetchParameter,
+  setObjectPath,
+  throwIfAborted,
 } from './utils.js';
+import {
+  getFileDetails,
+  type UploadValidationRule,
+  validateFiles,
+} from './validateFiles.js';
+import { type UploadRequestInit, xhrFetch } from './xhrFetch.js';
 
 /**
  * Checks if a value is an extractable file.
@@ -41,15 +112,38 @@ export interface ExtractableFileMatcher<T> {
  * @template T Extractable file type.
  */
 export interface FormDataFileAppender<T> {
-  (formData: FormData, fieldName: string, file: T): void;
+  (
+    formData: FormData,
+    fieldName: string,
+    file: T,
+    metadata?: FileMetadata
+  ): void;
 }
 
+/**
+ * How an upload link sends an operation:
+ *
+ * - `auto`: As a multipart request if it has files, or as decided by the
+ *   `shouldUseMultipart` option.
+ * - `multipart`: As a multipart request, even without files.
+ * - `json-inline`: As a regular JSON request, with files no larger than
+ *   `inlineMaxFileSize` inlined as base64 data URLs. Larger files are still
+ *   sent in a multipart request.
+ */
+export type UploadMode = 'auto' | 'multipart' | 'json-inline';
+
+/**
+ * URI of multipart requests, or a function getting it for an operation.
+ */
+export type UploadUri = string | ((operation: ApolloLink.Operation) => string);
+
 /**
  * Options for creating an upload link.
  */
 export interface UploadHttpLinkOptions<
-  T extends ExtractableFile = ExtractableFile,
-> extends BaseHttpLink.Options {
+  T extends UploadableFile = ExtractableFile,
+>
+  extends BaseHttpLink.Options {
   /**
    * [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData) class.
    *  Defaults to the {@linkcode FormData} global.
@@ -65,8 +159,206 @@ export interface UploadHttpLinkOptions<
    * Defaults to {@linkcode formDataAppendFile}.
    */
   formDataAppendFile?: FormDataFileAppender<T>;
+  /**
+   * Traversal handlers for values in the GraphQL variables that aren’t arrays
+   * or plain objects, such as input class instances, to extract files from.
+   * Defaults to none; {@linkcode builtInTraversalHandlers} opt in to `Map`
+   * and `Set` instances and objects with a `toJSON` method.
+   */
+  traversalHandlers?: ReadonlyArray<TraversalHandler>;
+  /**
+   * Receives upload progress of multipart requests. Without a custom `fetch`,
+   * requests with a progress handler use an
+   * [`XMLHttpRequest`](https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest)
+   * transport where available, as `fetch` can’t report upload progress.
+   */
+  onUploadProgress?: UploadProgressHandler;
+  /**
+   * Sends files larger than a threshold in resumable chunks ahead of the
+   * GraphQL operation, which then references each file by the value the
+   * chunked upload protocol completes with. Disabled by default.
+   */
+  chunkedUpload?: ChunkedUploadOptions;
+  /**
+   * Uploads every file directly to a target such as a presigned object
+   * storage URL, then sends the GraphQL operation as a regular request with
+   * each file replaced by its target `key`. Takes precedence over
+   * `chunkedUpload`. Disabled by default.
+   */
+  directUpload?: DirectUploadOptions<T>;
+  /**
+   * Retries failed multipart requests with exponential backoff, rebuilding
+   * the [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData)
+   * from the original files for each attempt. Disabled by default.
+   */
+  retry?: UploadRetryOptions;
+  /**
+   * Rules the extracted files must satisfy. A violation fails the operation
+   * with an `UploadValidationError` listing every offending file,
+   * before any network request is made.
+   */
+  validateFiles?: UploadValidationRule<T> | Array<UploadValidationRule<T>>;
+  /**
+   * Async steps that run in order on each extracted file before it is
+   * uploaded, replacing the file and/or gathering metadata that is passed to
+   * `formDataAppendFile`. See {@linkcode blobTransform} and
+   * {@linkcode contentHash}.
+   */
+  transformFile?: FileTransform<T> | Array<FileTransform<T>>;
+  /**
+   * Hashes the content of the files after `transformFile`, sending files
+   * with identical content once with the object paths of each. With
+   * `checkExisting`, the files the server already has are replaced by
+   * references instead of being uploaded. `true` deduplicates with the
+   * default options. Disabled by default.
+   */
+  dedupeFiles?: boolean | DedupeFilesOptions;
+  /**
+   * Encodes multipart request bodies instead of a
+   * [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData)
+   * instance, for control over the boundary, part headers and
+   * `Content-Length`, or where `FormData` is missing. See
+   * `createMultipartEncoder`. The `FormData` and
+   * `formDataAppendFile` options are then unused.
+   */
+  encoder?: MultipartEncoder<T>;
+  /**
+   * Tracks the status and progress of each file upload, for UI integration.
+   * Upload progress is observed as with `onUploadProgress`.
+   */
+  tracker?: UploadTracker;
+  /**
+   * Stores mutations with files that fail while offline, failing them with an
+   * `UploadQueuedError`, and replays them when connectivity returns.
+   */
+  offlineQueue?: OfflineUploadQueue<T>;
+  /**
+   * Limits how many operations with files upload at once, by count and/or
+   * bytes in flight, queuing the others by their `priority` context option.
+   */
+  scheduler?: UploadScheduler;
+  /**
+   * Instruments operations with files, emitting structured events for their
+   * extracted files, multipart requests and responses, and/or tracing them
+   * as spans. `true` logs the events with `console.debug`. File contents are
+   * never included, and the `authorization` and `cookie` headers are redacted
+   * by default.
+   */
+  debug?: boolean | UploadDebugOptions;
+  /**
+   * How operations are sent: `auto`, `multipart` or `json-inline`. Defaults
+   * to `auto`.
+   */
+  uploadMode?: UploadMode;
+  /**
+   * Decides, in the `auto` upload mode, whether to send an operation as a
+   * multipart request, or else as a `json-inline` one. Defaults to whether
+   * the operation has files.
+   * @param operation GraphQL operation.
+   * @param files Extracted files and their object paths.
+   * @returns Should the operation be sent as a multipart request.
+   */
+  shouldUseMultipart?(
+    operation: ApolloLink.Operation,
+    files: Map<T, Array<string>>
+  ): boolean;
+  /**
+   * Maximum byte size of a file inlined as a data URL in the `json-inline`
+   * upload mode. Defaults to 64 KiB.
+   */
+  inlineMaxFileSize?: number;
+  /**
+   * URI of multipart requests, such as an endpoint with a larger body size
+   * limit, or a function getting it for an operation. Defaults to `uri`.
+   */
+  uploadUri?: UploadUri;
+  /** Headers of multipart requests only, merged over `headers`. */
+  uploadHeaders?: Record<string, string>;
+  /** Fetch options of multipart requests only, merged over `fetchOptions`. */
+  uploadFetchOptions?: RequestInit;
+  /**
+   * Milliseconds a multipart request may take until its response, after
+   * which the operation is aborted and fails with an `UploadTimeoutError`.
+   * Disabled by default.
+   */
+  uploadTimeout?: number;
+  /**
+   * Headers multipart requests carry so servers with CSRF prevention accept
+   * them, unless already set: `apollo-require-preflight`, `operation-name`,
+   * a function getting the headers for an operation, or `false`. Defaults to
+   * `apollo-require-preflight`. Rejected requests fail with an
+   * `UploadCsrfError`.
+   */
+  preflightHeaders?: PreflightHeaders;
+  /**
+   * Called when an operation with files, or one of its files, is cancelled
+   * with the `cancel` or `cancelAll` methods.
+   */
+  onCancel?: UploadCancelHandler;
+}
+
+/**
+ * Upload link options that can be set per operation, via the `upload`
+ * [request context](https://www.apollographql.com/docs/react/api/link/introduction/#managing-context)
+ * property.
+ */
+export interface UploadHttpLinkContextOptions {
+  /**
+   * Receives upload progress of the operation, in addition to the link
+   * `onUploadProgress` option.
+   */
+  onUploadProgress?: UploadProgressHandler;
+  /**
+   * Retry options for the operation’s multipart request, overriding the link
+   * `retry` option. `false` disables retries.
+   */
+  retry?: UploadRetryOptions | false;
+  /** `false` keeps the operation out of the link `offlineQueue`. */
+  offlineQueue?: false;
+  /**
+   * Priority of the operation in the link `scheduler` queue. Higher priority
+   * operations start first. Defaults to `0`.
+   */
+  priority?: number;
+  /** How the operation is sent, overriding the link `uploadMode` option. */
+  uploadMode?: UploadMode;
+  /** URI of the operation’s multipart request, overriding `uploadUri`. */
+  uri?: UploadUri;
+  /** Headers of the operation’s multipart request, merged over `uploadHeaders`. */
+  headers?: Record<string, string>;
+  /**
+   * Fetch options of the operation’s multipart request, merged over
+   * `uploadFetchOptions`.
+   */
+  fetchOptions?: RequestInit;
+  /** Timeout of the operation’s multipart request, overriding `uploadTimeout`. */
+  timeout?: number;
+  /**
+   * Preflight headers of the operation’s multipart request, overriding the
+   * link `preflightHeaders` option.
+   */
+  preflightHeaders?: PreflightHeaders;
+  /** Deduplication of the operation’s files, overriding `dedupeFiles`. */
+  dedupeFiles?: boolean | DedupeFilesOptions;
+  /**
+   * ID to cancel the operation, or one of its files, by with the link
+   * `cancel` method. Operations may share an ID.
+   */
+  uploadId?: string;
+  /**
+   * Called when the operation, or one of its files, is cancelled, in
+   * addition to the link `onCancel` option.
+   */
+  onCancel?: UploadCancelHandler;
 }
 
+/**
+ * Outcome of a multipart request attempt: a parsed result, or a successful
+ * `multipart/mixed` response whose payloads are yet to be read.
+ */
+type MultipartAttemptResult =
+  { result: ApolloLink.Result } | { stream: Response };
+
 /**
  * Creates a
  * [terminating Apollo Link](https://www.apollographql.com/docs/react/api/link/introduction/#the-terminating-link)
@@ -100,9 +392,10 @@ export interface UploadHttpLinkOptions<
  * ```
  */
 export class UploadHttpLink<
-  T extends ExtractableFile = ExtractableFile,
+  T extends UploadableFile = ExtractableFile,
 > extends ApolloLink {
   private baseHttpLink: BaseHttpLink;
+  private activeUploads = new Set<ActiveUpload>();
 
   constructor(options: UploadHttpLinkOptions<T> = {}) {
     super();
@@ -122,9 +415,44 @@ export class UploadHttpLink<
         customIsExtractableFile = isExtractableFile as ExtractableFileMatcher<T>,
       formDataAppendFile:
         customFormDataAppendFile = formDataAppendFile as FormDataFileAppender<T>,
+      traversalHandlers = [],
+      onUploadProgress,
+      chunkedUpload,
+      directUpload,
+      retry: linkRetry,
+      validateFiles: validationRules,
+      transformFile,
+      dedupeFiles: linkDedupeFiles,
+      encoder,
+      tracker,
+      offlineQueue,
+      scheduler,
+      debug: debugOptions,
+      uploadMode: linkUploadMode = 'auto',
+      shouldUseMultipart,
+      inlineMaxFileSize = 64 * 1024,
+      uploadUri,
+      uploadHeaders,
+      uploadFetchOptions,
+      uploadTimeout,
+      preflightHeaders = 'apollo-require-preflight',
+      onCancel,
       ...requestOptions
     } = options;
 
+    const transformSteps = transformFile
+      ? Array.isArray(transformFile)
+        ? transformFile
+        : [transformFile]
+      : [];
+
+    const chunkedUploadProtocol = chunkedUpload
+      ? chunkedUpload.protocol ||
+        createTusUploadProtocol({ fetch: preferredFetch })
+      : null;
+    const chunkedUploadMinFileSize =
+      chunkedUpload?.minFileSize ?? chunkedUpload?.chunkSize ?? 5 * 1024 * 1024;
+
     const linkConfig = {
       http: compact({ includeExtensions, preserveHeaderCase }),
       options: requestOptions.fetchOptions,
@@ -135,6 +463,7 @@ export class UploadHttpLink<
     // Override the request method
     this.request = (operation) => {
       const context = operation.getContext();
+      const uploadContext: UploadHttpLinkContextOptions = context.upload || {};
 
       const http = { ...context.http };
       if (isSubscriptionOperation(operation.query)) {
@@ -171,11 +500,30 @@ export class UploadHttpLink<
       const { clone, files } = extractFiles(
         body,
         customIsExtractableFile as (value: unknown) => value is ExtractableFile,
-        ''
+        '',
+        traversalHandlers
       );
 
+      const uploadMode = uploadContext.uploadMode ?? linkUploadMode;
+      const useMultipart =
+        uploadMode === 'auto'
+          ? shouldUseMultipart
+            ? shouldUseMultipart(operation, files as Map<T, Array<string>>)
+            : files.size > 0
+          : uploadMode === 'multipart';
+      // Chosen explicitly, multipart requests are sent even without files.
+      const forceMultipart =
+        useMultipart && (uploadMode === 'multipart' || !!shouldUseMultipart);
+
       // If there are no files, directly use HttpLink to handle
-      if (!files.size) {
+      if (!files.size && !forceMultipart) {
+        // Values replaced by traversal handlers are sent as replaced, the
+        // same as when there are files.
+        if (traversalHandlers.length) {
+          operation.variables = (
+            clone as { variables: typeof operation.variables }
+          ).variables;
+        }
         // No file need to upload, fallback to HttpLink
         return this.baseHttpLink.request(
           operation,
@@ -183,39 +531,110 @@ export class UploadHttpLink<
         );
       }
 
-      // When there are files, use the file upload logic
-      const chosenURI = selectURI(operation, uri);
+      // Upload errors carry the details of the operation and its files.
+      let responseStatus: number | undefined;
+      const getErrorDetails = (): UploadErrorDetails => ({
+        ...(operation.operationName
+          ? { operationName: operation.operationName }
+          : {}),
+        files: Array.from(files, ([file, paths]) =>
+          getFileDetails(file, paths)
+        ),
+        ...(responseStatus === undefined ? {} : { status: responseStatus }),
+        bodySent: responseStatus !== undefined,
+      });
 
-      // Automatically set content-type to multipart/form-data
-      if (options.headers) {
-        delete options.headers['content-type'];
+      if (validationRules) {
+        try {
+          validateFiles(
+            files as Map<T, Array<string>>,
+            Array.isArray(validationRules)
+              ? validationRules
+              : [validationRules],
+            getErrorDetails()
+          );
+        } catch (error) {
+          return new Observable((observer) => {
+            observer.error(error);
+          });
+        }
       }
 
-      // GraphQL multipart request spec:
-      // https://github.com/jaydenseric/graphql-multipart-request-spec
-
-      const RuntimeFormData = CustomFormData || FormData;
-      const form = new RuntimeFormData();
+      // When there are files, use the file upload logic
+      const chosenUploadURI = uploadContext.uri ?? uploadUri;
+      const chosenURI =
+        chosenUploadURI === undefined
+          ? selectURI(operation, uri)
+          : typeof chosenUploadURI === 'function'
+            ? chosenUploadURI(operation)
+            : chosenUploadURI;
 
-      form.append('operations', serializeFetchParameter(clone, 'Payload'));
+      // Multipart requests can’t use GET, as hashed persisted queries may.
+      options.method = 'POST';
 
-      const map: Record<string, Array<string>> = {};
-      let i = 0;
-      files.forEach((paths) => {
-        map[++i] = paths;
+      // Upload specific options apply to the multipart request only. Their
+      // headers are merged over the regular ones instead of replacing them.
+      const headers: Record<string, string> = { ...options.headers };
+      Object.assign(options, uploadFetchOptions, uploadContext.fetchOptions);
+      const preserveCase = http.preserveHeaderCase ?? preserveHeaderCase;
+      [
+        uploadFetchOptions?.headers,
+        uploadContext.fetchOptions?.headers,
+        uploadHeaders,
+        uploadContext.headers,
+      ].forEach((overrides) => {
+        getHeaderEntries(overrides).forEach(([name, value]) => {
+          headers[preserveCase ? name : name.toLowerCase()] = value;
+        });
       });
-      form.append('map', JSON.stringify(map));
-
-      i = 0;
-      files.forEach((_paths, file) => {
-        (customFormDataAppendFile as FormDataFileAppender<ExtractableFile>)(
-          form,
-          String(++i),
-          file
-        );
+
+      // Servers with CSRF prevention only accept multipart requests with a
+      // non-simple header.
+      const headerNames = Object.keys(headers).map((name) =>
+        name.toLowerCase()
+      );
+      Object.entries(
+        getPreflightHeaders(
+          uploadContext.preflightHeaders ?? preflightHeaders,
+          operation
+        )
+      ).forEach(([name, value]) => {
+        if (!headerNames.includes(name.toLowerCase())) headers[name] = value;
       });
 
-      options.body = form;
+      // Automatically set content-type to multipart/form-data
+      delete headers['content-type'];
+      options.headers = headers;
+
+      // With a persisted query, only its hash is sent until the server asks
+      // for the full query text. `PersistedQueryLink` explicitly includes the
+      // query when it retries.
+      const operations = clone as {
+        query?: string;
+        extensions?: Record<string, any>;
+      };
+      let persistedQueryOnly =
+        !!operations.extensions?.persistedQuery && http.includeQuery !== true;
+      if (persistedQueryOnly) delete operations.query;
+
+      // Mutations are kept as sent, in case they’re queued while offline.
+      const queueableBody =
+        offlineQueue &&
+        uploadContext.offlineQueue !== false &&
+        isMutationOperation(operation.query)
+          ? {
+              query: print(operation.query, graphqlPrint),
+              variables: JSON.parse(
+                serializeFetchParameter(
+                  (clone as { variables?: unknown }).variables ?? {},
+                  'Variables'
+                )
+              ),
+            }
+          : undefined;
+
+      const retry =
+        uploadContext.retry === undefined ? linkRetry : uploadContext.retry;
 
       let controller = createAbortController();
       let cleanupController = () => {
@@ -249,35 +668,559 @@ export class UploadHttpLink<
       }
 
       return new Observable((observer) => {
-        // Prefer linkOptions.fetch (preferredFetch) if provided, and otherwise fall back to the *current* global window.
-        const runtimeFetch =
-          preferredFetch || maybe(() => fetch) || backupFetch;
-
-        runtimeFetch!(chosenURI, options)
-          .then((response) => {
-            // Forward the response on the context.
-            operation.setContext({ response });
-            return response;
-          })
-          .then(parseAndCheckHttpResponse(operation))
-          .then((result) => {
+        let subscription: Subscription | undefined;
+        let cancelled = false;
+        let rejectCancelled: (error: unknown) => void = noop;
+        let received = false;
+
+        const debug = createUploadDebugger(debugOptions, operation);
+        debug?.extract(files);
+
+        // Body progress of the latest request, for cancellations.
+        let progress: RequestBodyProgress | undefined;
+        // Paths of the files dropped from the operation before its request.
+        const droppedPaths = new Set<string>();
+        let started = false;
+        // Whether the operation was unsubscribed from.
+        let closed = false;
+
+        // Stops before each step once the operation is torn down or aborted,
+        // so nothing is sent for it afterwards.
+        const throwIfClosed = () => {
+          if (closed) throw createAbortError(options.signal);
+          throwIfAborted(options.signal ?? undefined);
+        };
+
+        const cancelOperation = () => {
+          cancelled = true;
+          const signal = controller?.signal;
+          controller?.abort();
+          subscription?.unsubscribe();
+          rejectCancelled(createAbortError(signal));
+        };
+
+        // Cancels the operation, or drops one of its files.
+        const cancelUpload = (path?: string) => {
+          if (
+            cancelled ||
+            (path !== undefined &&
+              (droppedPaths.has(path) ||
+                !Array.from(files.values()).some((paths) =>
+                  paths.includes(path)
+                )))
+          ) {
+            return false;
+          }
+
+          // A file is dropped until its request starts, after which a
+          // multipart body can’t drop a part, so the operation is cancelled.
+          if (path !== undefined && !started) {
+            droppedPaths.add(path);
+            tracking?.drop(path);
+          } else {
+            cancelOperation();
+          }
+          return true;
+        };
+
+        const tracking = tracker?.track(operation, files, cancelUpload);
+
+        const { uploadId } = uploadContext;
+        const activeUpload: ActiveUpload = {
+          uploadId,
+          cancel: (path) => {
+            if (!cancelUpload(path)) return false;
+
+            const event = {
+              ...(uploadId === undefined ? {} : { uploadId }),
+              operation,
+              ...(path !== undefined && !cancelled ? { path } : {}),
+              ...(cancelled && progress ? { progress } : {}),
+            };
+            onCancel?.(event);
+            uploadContext.onCancel?.(event);
+            return true;
+          },
+        };
+        this.activeUploads.add(activeUpload);
+
+        const next = (result: ApolloLink.Result) => {
+          // The files were received once the server responds.
+          tracking?.update('succeeded');
+          received = true;
+          observer.next(result);
+        };
+
+        const progressHandlers = [
+          onUploadProgress,
+          uploadContext.onUploadProgress,
+          tracking?.progress,
+        ].filter((handler) => !!handler);
+        const uploadChunkedFiles = async (
+          chunkedFiles: Map<ExtractableFile, Array<string>>
+        ) => {
+          for (const [file, paths] of chunkedFiles) {
+            const reference = await uploadFileInChunks(
+              file,
+              { ...chunkedUpload, protocol: chunkedUploadProtocol! },
+              { operation, paths, signal: controller?.signal }
+            );
+            paths.forEach((path) => setObjectPath(clone, path, reference));
+          }
+        };
+
+        const uploadDirectFiles = async (
+          directFiles: Map<ExtractableFile, Array<string>>
+        ) => {
+          const uploads: Array<DirectUpload<T>> = [];
+          try {
+            await uploadFilesDirectly(
+              directFiles as Map<T, Array<string>>,
+              directUpload!,
+              {
+                operation,
+                fetch: preferredFetch || maybe(() => fetch) || backupFetch!,
+                FormData: CustomFormData || FormData,
+                signal: controller?.signal,
+              },
+              uploads
+            );
+            uploads.forEach(({ paths, target }) => {
+              paths.forEach((path) => setObjectPath(clone, path, target.key));
+            });
+            await sendJson();
+          } catch (error) {
+            if (uploads.length && directUpload!.cleanup) {
+              await Promise.resolve()
+                .then(() => directUpload!.cleanup!(uploads, error, operation))
+                .catch(noop);
+            }
+            throw error;
+          }
+        };
+
+        const sendJson = () =>
+          new Promise<void>((resolve, reject) => {
+            throwIfClosed();
+            // Every file was uploaded elsewhere, so a regular request will do.
+            cleanupController();
+            operation.variables = (
+              clone as { variables: typeof operation.variables }
+            ).variables;
+            subscription = this.baseHttpLink
+              .request(operation, () => new Observable(() => {}))
+              .subscribe({
+                next,
+                error: (error) => reject(markFetchError(error)),
+                complete: resolve,
+              });
+          });
+
+        const sendMultipartAttempt = async (
+          multipartFiles: Map<ExtractableFile, Array<string>>,
+          fileMetadata: Map<ExtractableFile, FileMetadata>
+        ): Promise<MultipartAttemptResult> => {
+          // GraphQL multipart request spec:
+          // https://github.com/jaydenseric/graphql-multipart-request-spec
+
+          throwIfClosed();
+          const fileEntries = createFileEntries(multipartFiles);
+
+          const map: Record<string, Array<string>> = {};
+          fileEntries.forEach(({ fieldName, paths }) => {
+            map[fieldName] = paths;
+          });
+
+          // Prefer linkOptions.fetch (preferredFetch) if provided, and otherwise fall back to the *current* global window.
+          let runtimeFetch: (
+            uri: string,
+            options: UploadRequestInit
+          ) => Promise<Response> =
+            preferredFetch || maybe(() => fetch) || backupFetch!;
+
+          const progressReporter = progressHandlers.length
+            ? createUploadProgressReporter(
+                operation,
+                fileEntries,
+                progressHandlers
+              )
+            : null;
+
+          const fetchOptions: UploadRequestInit = options;
+
+          // Cancellable operations record the body progress for the abort
+          // error, if the transport reports it, without choosing the
+          // transport for it.
+          if (progressReporter || uploadId !== undefined) {
+            fetchOptions.onUploadProgress = (bodyProgress) => {
+              progress = {
+                loaded: bodyProgress.loaded,
+                total: bodyProgress.total,
+              };
+              progressReporter?.report(bodyProgress);
+            };
+          }
+
+          if (
+            progressReporter &&
+            !preferredFetch &&
+            typeof XMLHttpRequest !== 'undefined'
+          ) {
+            runtimeFetch = xhrFetch;
+          }
+
+          const operationsJson = serializeFetchParameter(clone, 'Payload');
+          const mapJson = JSON.stringify(map);
+
+          if (encoder) {
+            const encoded = await (
+              encoder as MultipartEncoder<ExtractableFile>
+            )(
+              {
+                operations: operationsJson,
+                map: mapJson,
+                files: fileEntries.map(({ fieldName, file }) => ({
+                  fieldName,
+                  file,
+                  metadata: fileMetadata.get(file),
+                })),
+              },
+              { streamable: runtimeFetch !== xhrFetch }
+            );
+
+            fetchOptions.headers = {
+              ...fetchOptions.headers,
+              'content-type': encoded.contentType,
+              ...(encoded.contentLength === undefined
+                ? {}
+                : { 'content-length': String(encoded.contentLength) }),
+            };
+            fetchOptions.body = encoded.body;
+            // Streaming request bodies must be sent half duplex.
+            if (typeof Blob !== 'undefined' && encoded.body instanceof Blob) {
+              delete fetchOptions.duplex;
+            } else {
+              fetchOptions.duplex = 'half';
+            }
+          } else {
+            const RuntimeFormData = CustomFormData || FormData;
+            const form = new RuntimeFormData();
+
+            form.append('operations', operationsJson);
+            form.append('map', mapJson);
+
+            fileEntries.forEach(({ fieldName, file }) => {
+              (
+                customFormDataAppendFile as FormDataFileAppender<ExtractableFile>
+              )(form, fieldName, file, fileMetadata.get(file));
+            });
+
+            fetchOptions.body = form;
+          }
+
+          responseStatus = undefined;
+          debug?.request(chosenURI, fetchOptions, {
+            operations: operationsJson,
+            map: mapJson,
+            files: fileEntries,
+          });
+
+          // Aborts the operation if the response takes too long.
+          const timeout = uploadContext.timeout ?? uploadTimeout;
+          let timeoutError: UploadTimeoutError | undefined;
+          const timer =
+            timeout === undefined
+              ? undefined
+              : setTimeout(() => {
+                  timeoutError = new UploadTimeoutError(
+                    timeout,
+                    getErrorDetails()
+                  );
+                  controller?.abort(timeoutError);
+                }, timeout);
+
+          let response: Response;
+          try {
+            response = await runtimeFetch(chosenURI, fetchOptions);
+          } catch (error) {
+            throw timeoutError ?? markFetchError(error);
+          } finally {
+            clearTimeout(timer);
+          }
+
+          responseStatus = response.status;
+          debug?.response(response.status);
+
+          // The body has been fully sent once there is a response.
+          progressReporter?.complete();
+          // Forward the response on the context.
+          operation.setContext({ response });
+
+          // Incremental delivery (e.g. `@defer`) and multipart subscription
+          // responses are read once the request succeeded, so payloads
+          // aren’t emitted again by a retry.
+          if (response.status < 300 && isMultipartResponse(response)) {
+            return { stream: response };
+          }
+
+          const result = await parseAndCheckHttpResponse(operation)(
+            response
+          ).catch((error) => {
+            throw isCsrfRejection(error)
+              ? new UploadCsrfError(error, getErrorDetails())
+              : error;
+          });
+          if (isCsrfRejection(result)) {
+            throw new UploadCsrfError(result, getErrorDetails());
+          }
+          // Without data, errors about the size limits fail the operation.
+          if (result.data == null && isPayloadTooLarge(result)) {
+            throw new PayloadTooLargeError({
+              ...getErrorDetails(),
+              cause: result,
+            });
+          }
+
+          return { result };
+        };
+
+        const sendMultipart = (
+          multipartFiles: Map<ExtractableFile, Array<string>>,
+          fileMetadata: Map<ExtractableFile, FileMetadata>
+        ) => {
+          const attempt = () =>
+            sendMultipartAttempt(multipartFiles, fileMetadata);
+          const send = () =>
+            retry
+              ? retryUpload(attempt, retry, operation, controller?.signal)
+              : attempt();
+
+          // Resends with the full query text and the same files if the server
+          // doesn’t have the persisted query.
+          const resendWithQuery = (resultOrError: unknown) => {
+            const persistedQueryError =
+              persistedQueryOnly && getPersistedQueryError(resultOrError);
+            if (!persistedQueryError) return;
+            persistedQueryOnly = false;
+            operations.query = print(operation.query, graphqlPrint);
+            if (persistedQueryError === 'PersistedQueryNotSupported') {
+              delete operations.extensions!.persistedQuery;
+            }
+            return send();
+          };
+
+          return send()
+            .then(
+              (attempted) =>
+                ('result' in attempted && resendWithQuery(attempted.result)) ||
+                attempted,
+              (error) => {
+                const resent = resendWithQuery(error);
+                if (!resent) throw error;
+                return resent;
+              }
+            )
+            .then((attempted) =>
+              'stream' in attempted
+                ? readMultipartBody(attempted.stream, (result) => next(result))
+                : next(attempted.result)
+            );
+        };
+
+        const upload = async () => {
+          throwIfClosed();
+          const transformed: TransformedFiles<ExtractableFile> =
+            transformSteps.length
+              ? ((await transformFiles(
+                  files as Map<T, Array<string>>,
+                  transformSteps,
+                  customIsExtractableFile,
+                  { operation, signal: controller?.signal }
+                )) as TransformedFiles<ExtractableFile>)
+              : { files, metadata: new Map() };
+          throwIfClosed();
+
+          // Files with identical content, or that the server already has,
+          // are only uploaded once.
+          const dedupeOptions = uploadContext.dedupeFiles ?? linkDedupeFiles;
+          const uniqueFiles = dedupeOptions
+            ? await dedupeFiles(
+                transformed.files,
+                clone,
+                dedupeOptions === true ? {} : dedupeOptions,
+                { operation, signal: controller?.signal }
+              )
+            : transformed.files;
+          throwIfClosed();
+
+          tracking?.update('uploading');
+
+          // Files cancelled so far are dropped from the operation.
+          started = true;
+          const remainingFiles = droppedPaths.size
+            ? new Map<ExtractableFile, Array<string>>()
+            : uniqueFiles;
+          if (droppedPaths.size) {
+            droppedPaths.forEach((path) => setObjectPath(clone, path, null));
+            uniqueFiles.forEach((paths, file) => {
+              const remainingPaths = paths.filter(
+                (path) => !droppedPaths.has(path)
+              );
+              if (remainingPaths.length) {
+                remainingFiles.set(file, remainingPaths);
+              }
+            });
+          }
+
+          const uploadFiles = !useMultipart
+            ? await inlineFiles(
+                remainingFiles,
+                clone,
+                inlineMaxFileSize,
+                controller?.signal
+              )
+            : remainingFiles;
+          throwIfClosed();
+
+          if (!uploadFiles.size) {
+            return forceMultipart
+              ? sendMultipart(uploadFiles, transformed.metadata)
+              : sendJson();
+          }
+
+          if (directUpload) return uploadDirectFiles(uploadFiles);
+
+          // Large files are sent in chunks ahead of the operation, if enabled.
+          const chunkedFiles = new Map<ExtractableFile, Array<string>>();
+          const multipartFiles = new Map<ExtractableFile, Array<string>>();
+          uploadFiles.forEach((paths, file) => {
+            if (
+              chunkedUploadProtocol &&
+              typeof Blob !== 'undefined' &&
+              file instanceof Blob &&
+              file.size > chunkedUploadMinFileSize
+            ) {
+              chunkedFiles.set(file, paths);
+            } else {
+              multipartFiles.set(file, paths);
+            }
+          });
+
+          await uploadChunkedFiles(chunkedFiles);
+          throwIfClosed();
+
+          return multipartFiles.size || forceMultipart
+            ? sendMultipart(multipartFiles, transformed.metadata)
+            : sendJson();
+        };
+
+        // Waits for a turn to upload, if scheduled.
+        const scheduledUpload = () =>
+          scheduler
+            ? scheduler.schedule(upload, {
+                size: Array.from(files).reduce(
+                  (size, [file, paths]) =>
+                    size + getFileDetails(file, paths).size,
+                  0
+                ),
+                priority: uploadContext.priority,
+                signal: controller?.signal,
+              })
+            : upload();
+
+        const uploadOrQueue = async () => {
+          if (!queueableBody) return scheduledUpload();
+
+          let cause: unknown;
+          if (!offlineQueue!.isOffline()) {
+            try {
+              return await scheduledUpload();
+            } catch (error) {
+              if (cancelled || !offlineQueue!.shouldQueue(error, operation)) {
+                throw error;
+              }
+              cause = error;
+            }
+          }
+
+          const queued = await offlineQueue!.enqueue(
+            operation,
+            queueableBody,
+            files as Map<T, Array<string>>
+          );
+          throw new UploadQueuedError(queued.id, cause, getErrorDetails());
+        };
+
+        Promise.race([
+          uploadOrQueue(),
+          // Settles the operation as soon as the tracker cancels it.
+          new Promise<never>((_, reject) => {
+            rejectCancelled = reject;
+          }),
+        ])
+          .then(() => {
+            this.activeUploads.delete(activeUpload);
             cleanupController();
-            observer.next(result);
+            tracking?.update('succeeded');
+            debug?.end();
             observer.complete();
           })
-          .catch((error) => {
+          .catch((reason) => {
+            this.activeUploads.delete(activeUpload);
             cleanupController();
+            const error = mapUploadError(
+              reason,
+              getErrorDetails(),
+              cancelled || !!options.signal?.aborted,
+              progress
+            );
+            tracking?.update(cancelled ? 'cancelled' : 'failed', error);
+            debug?.end(error);
             observer.error(error);
           });
 
         // Cleanup function.
         return () => {
+          closed = true;
+          this.activeUploads.delete(activeUpload);
           // Abort fetch. It’s ok to signal an abort even when not fetching.
           if (controller) {
             controller.abort();
           }
+          subscription?.unsubscribe();
+          tracking?.update('cancelled');
+          debug?.end(received ? undefined : createAbortError());
         };
       });
     };
   }
+
+  /**
+   * Cancels the operations with files in flight that have an `uploadId`
+   * context option, or drops one of their files. A file is dropped from the
+   * operation, its variable becoming `null`, until the operation’s request
+   * starts, after which the whole operation is cancelled. Cancelled operations
+   * fail with an `UploadAbortedError`.
+   * @param uploadId ID of the upload.
+   * @param path Object path of the file to cancel, e.g. `variables.files.1`.
+   * Defaults to the whole operation.
+   * @returns Whether anything was cancelled.
+   */
+  cancel(uploadId: string, path?: string): boolean {
+    let cancelledAny = false;
+    Array.from(this.activeUploads).forEach((upload) => {
+      if (upload.uploadId === uploadId && upload.cancel(path)) {
+        cancelledAny = true;
+      }
+    });
+    return cancelledAny;
+  }
+
+  /**
+   * Cancels every operation with files in flight, failing them with an
+   * `UploadAbortedError`.
+   */
+  cancelAll(): void {
+    Array.from(this.activeUploads).forEach((upload) => upload.cancel());
+  }
 }
@@ -0,0 +1,158 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import { wait } from './utils.js';
+
+/**
+ * A server side upload session for a file sent in chunks.
+ */
+export interface ChunkedUploadSession {
+  /** Upload session ID, sent with every chunk. */
+  id: string;
+  /** Byte offset the server has confirmed, to send the next chunk from. */
+  offset: number;
+}
+
+/**
+ * Context of a file sent in chunks, passed to the protocol.
+ */
+export interface ChunkedUploadContext {
+  /** GraphQL operation the file belongs to. */
+  operation: ApolloLink.Operation;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+  /** Aborts when the operation is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Protocol for sending files in chunks, such as
+ * [tus](https://tus.io/protocols/resumable-upload).
+ * @see {@linkcode createTusUploadProtocol}.
+ */
+export interface ChunkedUploadProtocol {
+  /**
+   * Starts an upload session for a file.
+   * @param file File to upload.
+   * @param context Upload context.
+   * @returns Upload session.
+   */
+  createSession(
+    file: Blob,
+    context: ChunkedUploadContext
+  ): Promise<ChunkedUploadSession>;
+  /**
+   * Sends a chunk of a file.
+   * @param session Upload session.
+   * @param chunk Chunk of the file, starting at the offset.
+   * @param offset Byte offset of the chunk within the file.
+   * @param context Upload context.
+   * @returns Byte offset the server has confirmed after the chunk.
+   */
+  sendChunk(
+    session: ChunkedUploadSession,
+    chunk: Blob,
+    offset: number,
+    context: ChunkedUploadContext
+  ): Promise<number>;
+  /**
+   * Gets the byte offset the server has confirmed, to resume from after a
+   * failed chunk.
+   * @param session Upload session.
+   * @param context Upload context.
+   * @returns Confirmed byte offset.
+   */
+  getOffset(
+    session: ChunkedUploadSession,
+    context: ChunkedUploadContext
+  ): Promise<number>;
+  /**
+   * Completes the upload session once every chunk is confirmed. Defaults to
+   * the session ID.
+   * @param session Upload session.
+   * @param context Upload context.
+   * @returns Value replacing the file in the GraphQL operation.
+   */
+  complete?(
+    session: ChunkedUploadSession,
+    context: ChunkedUploadContext
+  ): Promise<unknown>;
+}
+
+/**
+ * Options for sending large files in chunks, ahead of the GraphQL operation.
+ */
+export interface ChunkedUploadOptions {
+  /**
+   * Protocol for sending the chunks.
+   * Defaults to {@linkcode createTusUploadProtocol} with its default options.
+   */
+  protocol?: ChunkedUploadProtocol;
+  /** Byte size of each chunk. Defaults to 5 MiB. */
+  chunkSize?: number;
+  /**
+   * Files larger than this byte size are sent in chunks, others in the
+   * multipart request as usual. Defaults to `chunkSize`.
+   */
+  minFileSize?: number;
+  /** Times a failed chunk is retried. Defaults to `3`. */
+  chunkRetries?: number;
+  /** Milliseconds to wait before retrying a failed chunk. Defaults to `1000`. */
+  retryDelay?: number;
+}
+
+/**
+ * Sends a file in chunks, retrying a failed chunk on its own from the offset
+ * the server has confirmed.
+ * @param file File to upload.
+ * @param options Chunked upload options.
+ * @param context Upload context.
+ * @returns Value replacing the file in the GraphQL operation.
+ */
+export async function uploadFileInChunks(
+  file: Blob,
+  options: ChunkedUploadOptions & { protocol: ChunkedUploadProtocol },
+  context: ChunkedUploadContext
+): Promise<unknown> {
+  const {
+    protocol,
+    chunkSize = 5 * 1024 * 1024,
+    chunkRetries = 3,
+    retryDelay = 1000,
+  } = options;
+
+  const session = await protocol.createSession(file, context);
+  let retries = 0;
+  let resume = false;
+
+  while (resume || session.offset < file.size) {
+    try {
+      if (resume) {
+        session.offset = await protocol.getOffset(session, context);
+        resume = false;
+        continue;
+      }
+
+      const offset = session.offset;
+      session.offset = await protocol.sendChunk(
+        session,
+        file.slice(offset, offset + chunkSize),
+        offset,
+        context
+      );
+
+      if (session.offset <= offset) {
+        throw new Error(
+          `Upload session \`${session.id}\` didn’t confirm the chunk at offset ${offset}.`
+        );
+      }
+
+      retries = 0;
+    } catch (error) {
+      if (context.signal?.aborted || retries++ >= chunkRetries) throw error;
+      await wait(retryDelay, context.signal);
+      resume = true;
+    }
+  }
+
+  return protocol.complete ? protocol.complete(session, context) : session.id;
+}
@@ -0,0 +1,59 @@
+import type { ApolloLink } from '@apollo/client';
+import { ServerError } from '@apollo/client/errors';
+import { getGraphQLErrors } from './persistedQuery.js';
+
+/**
+ * Headers multipart requests carry so servers with CSRF prevention, such as
+ * [Apollo Server](https://www.apollographql.com/docs/apollo-server/security/cors#preventing-cross-site-request-forgery-csrf),
+ * accept them:
+ *
+ * - `apollo-require-preflight`: `Apollo-Require-Preflight: true`.
+ * - `operation-name`: `X-Apollo-Operation-Name` with the operation name, or
+ *   `Apollo-Require-Preflight: true` for anonymous operations.
+ * - A function getting the headers for an operation.
+ * - `false`: None.
+ */
+export type PreflightHeaders =
+  | 'apollo-require-preflight'
+  | 'operation-name'
+  | ((operation: ApolloLink.Operation) => Record<string, string>)
+  | false;
+
+/**
+ * Gets the preflight headers of an operation’s multipart request.
+ * @param preflightHeaders Preflight headers option.
+ * @param operation GraphQL operation.
+ * @returns Headers.
+ */
+export function getPreflightHeaders(
+  preflightHeaders: PreflightHeaders,
+  operation: ApolloLink.Operation
+): Record<string, string> {
+  if (!preflightHeaders) return {};
+  if (typeof preflightHeaders === 'function') {
+    return preflightHeaders(operation);
+  }
+  if (preflightHeaders === 'operation-name' && operation.operationName) {
+    return { 'x-apollo-operation-name': operation.operationName };
+  }
+  return { 'apollo-require-preflight': 'true' };
+}
+
+/**
+ * Checks if the server rejected a request as a potential CSRF attack, the way
+ * Apollo Server’s CSRF prevention responds.
+ * @param resultOrError GraphQL result, or the error of a failed request.
+ * @returns Was the request rejected.
+ */
+export function isCsrfRejection(resultOrError: unknown): boolean {
+  const messages = (getGraphQLErrors(resultOrError) ?? []).map(
+    (error) => (error as { message?: unknown } | null)?.message
+  );
+  if (ServerError.is(resultOrError)) messages.push(resultOrError.bodyText);
+
+  return messages.some(
+    (message) =>
+      typeof message === 'string' &&
+      message.includes('Cross-Site Request Forgery')
+  );
+}
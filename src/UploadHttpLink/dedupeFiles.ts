@@ -0,0 +1,104 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import { hashBlob, setObjectPath, throwIfAborted } from './utils.js';
+
+/**
+ * Options for deduplicating files by their content.
+ */
+export interface DedupeFilesOptions {
+  /** WebCrypto digest algorithm. Defaults to `SHA-256`. */
+  algorithm?: 'SHA-256' | 'SHA-384' | 'SHA-512';
+  /**
+   * Gets which files the server already has, so they’re replaced by
+   * references instead of being uploaded again.
+   * @param hashes Hex encoded content hashes of the files to upload.
+   * @param operation GraphQL operation.
+   * @returns Hashes of the files the server already has.
+   */
+  checkExisting?(
+    hashes: Array<string>,
+    operation: ApolloLink.Operation
+  ): Iterable<string> | Promise<Iterable<string>>;
+  /**
+   * Gets the value replacing a file the server already has in the GraphQL
+   * operation. Defaults to the content hash.
+   * @param hash Hex encoded content hash of the file.
+   * @returns Reference to the file.
+   */
+  reference?(hash: string): unknown;
+}
+
+/**
+ * Context for deduplicating files.
+ */
+export interface DedupeFilesContext {
+  /** GraphQL operation the files belong to. */
+  operation: ApolloLink.Operation;
+  /** Aborts when the operation is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Merges files with identical content into one file with the object paths of
+ * each, and replaces the files the server already has with references within
+ * an extraction clone. Files that aren’t a `Blob` are kept as they are.
+ * @param files Extracted files and their object paths.
+ * @param clone Extraction clone to insert the references into.
+ * @param options Options.
+ * @param context Operation and abort signal.
+ * @returns The files to upload.
+ */
+export async function dedupeFiles<T>(
+  files: Map<T, Array<ObjectPath>>,
+  clone: unknown,
+  options: DedupeFilesOptions,
+  context: DedupeFilesContext
+): Promise<Map<T, Array<ObjectPath>>> {
+  const { algorithm = 'SHA-256', checkExisting, reference } = options;
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error(
+      'The `dedupeFiles` option requires WebCrypto (`crypto.subtle`).'
+    );
+  }
+
+  const deduped = new Map<T, Array<ObjectPath>>();
+  const fileHashes = new Map<T, string>();
+  const filesByHash = new Map<string, T>();
+
+  for (const [file, paths] of files) {
+    if (!(typeof Blob !== 'undefined' && file instanceof Blob)) {
+      deduped.set(file, [...paths]);
+      continue;
+    }
+
+    const hash = await hashBlob(file, algorithm);
+    throwIfAborted(context.signal);
+
+    const identicalFile = filesByHash.get(hash);
+    if (identicalFile === undefined) {
+      filesByHash.set(hash, file);
+      fileHashes.set(file, hash);
+      deduped.set(file, [...paths]);
+    } else {
+      deduped.get(identicalFile)!.push(...paths);
+    }
+  }
+
+  if (!checkExisting || !filesByHash.size) return deduped;
+
+  const existing = new Set(
+    await checkExisting(Array.from(filesByHash.keys()), context.operation)
+  );
+  throwIfAborted(context.signal);
+
+  fileHashes.forEach((hash, file) => {
+    if (!existing.has(hash)) return;
+
+    const value = reference ? reference(hash) : hash;
+    deduped.get(file)!.forEach((path) => setObjectPath(clone, path, value));
+    deduped.delete(file);
+  });
+
+  return deduped;
+}
@@ -0,0 +1,163 @@
+import type { ApolloLink } from '@apollo/client';
+import { ServerError } from '@apollo/client/errors';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { ExtractableFile } from '../extractFiles/isExtractableFile.js';
+import { forEachConcurrently, markFetchError } from './utils.js';
+
+/**
+ * Where to upload a file directly to, typically a presigned object storage
+ * URL.
+ */
+export interface DirectUploadTarget {
+  /** URL to upload the file to. */
+  url: string;
+  /** HTTP method. Defaults to `PUT`. */
+  method?: 'PUT' | 'POST';
+  /** Headers for the upload request. */
+  headers?: Record<string, string>;
+  /**
+   * Form fields preceding the file in a `POST` upload, such as an S3 POST
+   * policy. The file is appended as the `file` field.
+   */
+  fields?: Record<string, string>;
+  /** Value replacing the file in the GraphQL operation, typically the storage key. */
+  key: unknown;
+}
+
+/**
+ * A file uploaded directly to its target.
+ * @template T Extractable file type.
+ */
+export interface DirectUpload<T = ExtractableFile> {
+  /** Uploaded file. */
+  file: T;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+  /** Target the file was uploaded to. */
+  target: DirectUploadTarget;
+}
+
+/**
+ * Options for uploading files directly to object storage, ahead of a regular
+ * GraphQL request referencing them.
+ * @template T Extractable file type.
+ */
+export interface DirectUploadOptions<T = ExtractableFile> {
+  /**
+   * Gets where to upload a file to.
+   * @param file File to upload.
+   * @param paths Object paths of the file within the GraphQL operation.
+   * @param operation GraphQL operation.
+   * @returns Upload target.
+   */
+  getUploadTarget(
+    file: T,
+    paths: Array<ObjectPath>,
+    operation: ApolloLink.Operation
+  ): DirectUploadTarget | Promise<DirectUploadTarget>;
+  /** Maximum number of files uploaded at once. Defaults to `4`. */
+  concurrency?: number;
+  /**
+   * Cleans up the files already uploaded when a later step fails, such as
+   * another file upload or the GraphQL request. Errors it throws are ignored
+   * in favor of the original error.
+   * @param uploads Files already uploaded.
+   * @param error Error of the failed step.
+   * @param operation GraphQL operation.
+   */
+  cleanup?(
+    uploads: Array<DirectUpload<T>>,
+    error: unknown,
+    operation: ApolloLink.Operation
+  ): void | Promise<void>;
+}
+
+/**
+ * Context for uploading files directly.
+ */
+export interface DirectUploadContext {
+  /** GraphQL operation the files belong to. */
+  operation: ApolloLink.Operation;
+  /**
+   * [`fetch`](https://developer.mozilla.org/en-US/docs/Web/API/WindowOrWorkerGlobalScope/fetch)
+   * implementation.
+   */
+  fetch: (uri: string, options: RequestInit) => Promise<Response>;
+  /** [`FormData`](https://developer.mozilla.org/en-US/docs/Web/API/FormData) class, for `POST` uploads. */
+  FormData: typeof FormData;
+  /** Aborts when the operation is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Uploads a file to its target.
+ */
+async function uploadFile(
+  file: ExtractableFile,
+  target: DirectUploadTarget,
+  { fetch, FormData: RuntimeFormData, signal }: DirectUploadContext
+): Promise<void> {
+  const { url, method = 'PUT', headers, fields } = target;
+  let body: BodyInit = file;
+
+  if (method === 'POST') {
+    const form = new RuntimeFormData();
+    if (fields) {
+      Object.keys(fields).forEach((name) => form.append(name, fields[name]));
+    }
+    if ('name' in file) {
+      form.append('file', file, file.name);
+    } else {
+      form.append('file', file);
+    }
+    body = form;
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers:
+      method === 'PUT' && file.type
+        ? { 'Content-Type': file.type, ...headers }
+        : headers,
+    body,
+    signal,
+  }).catch((error) => {
+    throw markFetchError(error);
+  });
+
+  if (!response.ok) {
+    const bodyText = await response.text();
+    throw new ServerError(
+      `Response not successful: Received status code ${response.status}`,
+      { response, bodyText }
+    );
+  }
+}
+
+/**
+ * Uploads files directly to the targets {@link DirectUploadOptions.getUploadTarget}
+ * returns. After a failure no further uploads start, and the first error is
+ * thrown once those in flight settle.
+ * @param files Extracted files and their object paths.
+ * @param options Direct upload options.
+ * @param context Upload context.
+ * @param uploads Receives each file once uploaded, so a failure can be cleaned up.
+ */
+export async function uploadFilesDirectly<T>(
+  files: Map<T, Array<ObjectPath>>,
+  options: DirectUploadOptions<T>,
+  context: DirectUploadContext,
+  uploads: Array<DirectUpload<T>>
+): Promise<void> {
+  const { getUploadTarget, concurrency = 4 } = options;
+
+  await forEachConcurrently(
+    Array.from(files),
+    concurrency,
+    async ([file, paths]) => {
+      const target = await getUploadTarget(file, paths, context.operation);
+      await uploadFile(file as ExtractableFile, target, context);
+      uploads.push({ file, paths, target });
+    }
+  );
+}
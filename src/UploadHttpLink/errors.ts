@@ -0,0 +1,295 @@
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { RequestBodyProgress } from './uploadProgress.js';
+
+/**
+ * Details of an extracted file, for error reporting.
+ */
+export interface UploadFileDetails {
+  /** File name, if the file has one. */
+  name?: string;
+  /** Byte size of the file. */
+  size: number;
+  /** MIME type of the file, if known. */
+  type?: string;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+}
+
+/**
+ * A violation of an upload validation rule.
+ */
+export interface UploadValidationViolation {
+  /** Which check of the rule was violated. */
+  check: 'maxFileSize' | 'maxTotalSize' | 'maxFiles' | 'accept' | 'validate';
+  /** Description of the violation. */
+  message: string;
+  /** Offending files. */
+  files: Array<UploadFileDetails>;
+}
+
+/**
+ * Details of the operation an {@link UploadError} failed.
+ */
+export interface UploadErrorDetails {
+  /** Name of the GraphQL operation, if it has one. */
+  operationName?: string;
+  /** Files extracted from the operation. */
+  files: Array<UploadFileDetails>;
+  /** Status of the server response, if the server responded. */
+  status?: number;
+  /**
+   * Whether the request body was fully sent before the failure, as is known
+   * once the server responds.
+   */
+  bodySent: boolean;
+  /** Underlying error or result, if any. */
+  cause?: unknown;
+}
+
+/**
+ * Base class of the errors an upload link fails an operation with, carrying
+ * the details of the operation and its files.
+ */
+export class UploadError extends Error {
+  /**
+   * Checks if an error is an {@link UploadError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadError}.
+   */
+  static is(error: unknown): error is UploadError {
+    return error instanceof UploadError;
+  }
+
+  /** Name of the GraphQL operation, if it has one. */
+  readonly operationName?: string;
+
+  /** Files extracted from the operation. */
+  readonly files: Array<UploadFileDetails>;
+
+  /** Status of the server response, if the server responded. */
+  readonly status?: number;
+
+  /** Whether the request body was fully sent before the failure. */
+  readonly bodySent: boolean;
+
+  /** Underlying error or result, if any. */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    details: UploadErrorDetails = { files: [], bodySent: false }
+  ) {
+    super(message);
+    this.name = 'UploadError';
+    if (details.operationName !== undefined) {
+      this.operationName = details.operationName;
+    }
+    this.files = details.files;
+    if (details.status !== undefined) this.status = details.status;
+    this.bodySent = details.bodySent;
+    if (details.cause !== undefined) this.cause = details.cause;
+  }
+}
+
+/**
+ * Fails an operation with files violating the `validateFiles` rules, before
+ * any network request is made.
+ */
+export class UploadValidationError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadValidationError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadValidationError}.
+   */
+  static is(error: unknown): error is UploadValidationError {
+    return error instanceof UploadValidationError;
+  }
+
+  /** Every violation of the rules. */
+  readonly violations: Array<UploadValidationViolation>;
+
+  constructor(
+    violations: Array<UploadValidationViolation>,
+    details?: UploadErrorDetails
+  ) {
+    super(
+      `Upload validation failed:\n${violations
+        .map(({ message }) => `- ${message}`)
+        .join('\n')}`,
+      details
+    );
+    this.name = 'UploadValidationError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Fails an operation whose multipart request didn’t receive a response within
+ * the upload timeout, after aborting it.
+ */
+export class UploadTimeoutError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadTimeoutError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadTimeoutError}.
+   */
+  static is(error: unknown): error is UploadTimeoutError {
+    return error instanceof UploadTimeoutError;
+  }
+
+  /** Milliseconds the request was allowed to take. */
+  readonly timeout: number;
+
+  constructor(timeout: number, details?: UploadErrorDetails) {
+    super(`The upload request timed out after ${timeout} ms.`, details);
+    this.name = 'UploadTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Fails an operation whose multipart request the server rejected as a
+ * potential Cross-Site Request Forgery (CSRF), as servers with CSRF
+ * prevention do for requests without a non-simple header.
+ */
+export class UploadCsrfError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadCsrfError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadCsrfError}.
+   */
+  static is(error: unknown): error is UploadCsrfError {
+    return error instanceof UploadCsrfError;
+  }
+
+  constructor(cause: unknown, details?: Omit<UploadErrorDetails, 'cause'>) {
+    super(
+      'The server rejected the multipart request as a potential Cross-Site Request Forgery (CSRF). ' +
+        'Servers with CSRF prevention, such as Apollo Server, require a non-simple header like `Apollo-Require-Preflight: true`, ' +
+        'which the upload link `preflightHeaders` option sends unless it’s `false`. ' +
+        'Make sure proxies and the CORS configuration let the header through.',
+      { files: [], bodySent: true, ...details, cause }
+    );
+    this.name = 'UploadCsrfError';
+  }
+}
+
+/**
+ * Fails an operation that was stored in an offline upload queue, as it
+ * couldn’t be sent. The queue replays it when connectivity returns.
+ */
+export class UploadQueuedError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadQueuedError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadQueuedError}.
+   */
+  static is(error: unknown): error is UploadQueuedError {
+    return error instanceof UploadQueuedError;
+  }
+
+  /** ID of the queued upload. */
+  readonly queuedUploadId: string;
+
+  constructor(
+    queuedUploadId: string,
+    cause?: unknown,
+    details?: Omit<UploadErrorDetails, 'cause'>
+  ) {
+    super('The upload was queued to be sent when connectivity returns.', {
+      files: [],
+      bodySent: false,
+      ...details,
+      cause,
+    });
+    this.name = 'UploadQueuedError';
+    this.queuedUploadId = queuedUploadId;
+  }
+}
+
+/**
+ * Fails an operation the server rejected as too large, with a
+ * `413 Payload Too Large` status or an error about the file size or count
+ * limits, such as those of
+ * [`graphql-upload`](https://github.com/jaydenseric/graphql-upload).
+ */
+export class PayloadTooLargeError extends UploadError {
+  /**
+   * Checks if an error is a {@link PayloadTooLargeError}.
+   * @param error Error to check.
+   * @returns Is the error a {@link PayloadTooLargeError}.
+   */
+  static is(error: unknown): error is PayloadTooLargeError {
+    return error instanceof PayloadTooLargeError;
+  }
+
+  constructor(details: UploadErrorDetails) {
+    super(
+      `The server rejected the upload${describeOperation(details)} as too large.`,
+      details
+    );
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Fails an operation that was aborted before the server responded, e.g. by
+ * the upload link `cancel` method, the `signal` fetch option or an upload
+ * tracker.
+ */
+export class UploadAbortedError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadAbortedError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadAbortedError}.
+   */
+  static is(error: unknown): error is UploadAbortedError {
+    return error instanceof UploadAbortedError;
+  }
+
+  /** Progress of the request body when aborted, if known. */
+  readonly progress?: RequestBodyProgress;
+
+  constructor(details: UploadErrorDetails, progress?: RequestBodyProgress) {
+    super(`The upload${describeOperation(details)} was aborted.`, details);
+    this.name = 'UploadAbortedError';
+    if (progress !== undefined) this.progress = progress;
+  }
+}
+
+/**
+ * Fails an operation whose request didn’t reach the GraphQL server, or was
+ * answered by something else, such as a proxy responding with an HTML error
+ * page.
+ */
+export class UploadNetworkError extends UploadError {
+  /**
+   * Checks if an error is an {@link UploadNetworkError}.
+   * @param error Error to check.
+   * @returns Is the error an {@link UploadNetworkError}.
+   */
+  static is(error: unknown): error is UploadNetworkError {
+    return error instanceof UploadNetworkError;
+  }
+
+  constructor(details: UploadErrorDetails) {
+    const reason =
+      details.status === undefined
+        ? (details.cause as { message?: unknown } | null)?.message
+        : `Received status code ${details.status} without a GraphQL response`;
+    super(
+      `The upload request${describeOperation(details)} failed${
+        typeof reason === 'string' ? `: ${reason}` : '.'
+      }`,
+      details
+    );
+    this.name = 'UploadNetworkError';
+  }
+}
+
+/**
+ * Describes the operation of an upload error for its message.
+ */
+function describeOperation({ operationName }: UploadErrorDetails): string {
+  return operationName ? ` of operation \`${operationName}\`` : '';
+}
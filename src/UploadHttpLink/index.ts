@@ -1 +1,53 @@
+export type {
+  ChunkedUploadContext,
+  ChunkedUploadOptions,
+  ChunkedUploadProtocol,
+  ChunkedUploadSession,
+} from './chunkedUpload.js';
+export type { PreflightHeaders } from './csrfPrevention.js';
+export type { DedupeFilesOptions } from './dedupeFiles.js';
+export type {
+  DirectUpload,
+  DirectUploadOptions,
+  DirectUploadTarget,
+} from './directUpload.js';
+export * from './errors.js';
+export * from './multipartEncoder.js';
+export {
+  blobTransform,
+  type BlobTransformOptions,
+  contentHash,
+  type ContentHashOptions,
+  type FileMetadata,
+  type FileTransform,
+  type FileTransformContext,
+  type FileTransformResult,
+} from './transformFile.js';
+export * from './tusUploadProtocol.js';
+export type {
+  UploadCancelEvent,
+  UploadCancelHandler,
+} from './uploadCancellation.js';
+export type {
+  UploadDebugEvent,
+  UploadDebugOptions,
+  UploadErrorEvent,
+  UploadExtractEvent,
+  UploadFormField,
+  UploadRequestEvent,
+  UploadResponseEvent,
+  UploadSpan,
+  UploadSpanAttributes,
+  UploadTracer,
+} from './uploadDebug.js';
 export * from './UploadHttpLink.js';
+export type {
+  RequestBodyProgress,
+  UploadFileProgress,
+  UploadProgressEvent,
+  UploadProgressHandler,
+} from './uploadProgress.js';
+export type { UploadRetryOptions } from './uploadRetry.js';
+export * from './uploadScheduler.js';
+export { matchObjectPath, type UploadValidationRule } from './validateFiles.js';
+export { type UploadRequestInit, xhrFetch } from './xhrFetch.js';
@@ -0,0 +1,56 @@
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import { setObjectPath, throwIfAborted } from './utils.js';
+
+/**
+ * Encodes a [`Blob`](https://developer.mozilla.org/en-US/docs/Web/API/Blob)
+ * as a base64
+ * [data URL](https://developer.mozilla.org/en-US/docs/Web/URI/Reference/Schemes/data).
+ * @param blob Blob to encode.
+ * @returns Data URL.
+ */
+export async function blobToDataURL(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // Converted in chunks, as spreading a large array overflows the stack.
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Replaces the files no larger than a size threshold with data URLs within
+ * an extraction clone, so they’re sent inline in the JSON request body.
+ * @param files Extracted files and their object paths.
+ * @param clone Extraction clone to insert the data URLs into.
+ * @param maxFileSize Maximum byte size of an inlined file.
+ * @param signal Aborts when the operation is cancelled.
+ * @returns The files that weren’t inlined, as they’re too large or aren’t a
+ * `Blob`.
+ */
+export async function inlineFiles<T>(
+  files: Map<T, Array<ObjectPath>>,
+  clone: unknown,
+  maxFileSize: number,
+  signal?: AbortSignal
+): Promise<Map<T, Array<ObjectPath>>> {
+  const remaining = new Map<T, Array<ObjectPath>>();
+
+  for (const [file, paths] of files) {
+    if (
+      typeof Blob !== 'undefined' &&
+      file instanceof Blob &&
+      file.size <= maxFileSize
+    ) {
+      const dataURL = await blobToDataURL(file);
+      throwIfAborted(signal);
+      paths.forEach((path) => setObjectPath(clone, path, dataURL));
+    } else {
+      remaining.set(file, paths);
+    }
+  }
+
+  return remaining;
+}
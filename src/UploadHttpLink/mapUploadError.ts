@@ -0,0 +1,93 @@
+import { ServerError, ServerParseError } from '@apollo/client/errors';
+import {
+  PayloadTooLargeError,
+  UploadAbortedError,
+  UploadError,
+  type UploadErrorDetails,
+  UploadNetworkError,
+} from './errors.js';
+import { getGraphQLErrors } from './persistedQuery.js';
+import type { RequestBodyProgress } from './uploadProgress.js';
+import { getStatusCode, isAbortError, isNetworkError } from './utils.js';
+
+/**
+ * GraphQL error codes of servers rejecting files as too large.
+ */
+const payloadTooLargeCodes = ['FILE_TOO_LARGE', 'PAYLOAD_TOO_LARGE'];
+
+/**
+ * Messages of the [`graphql-upload`](https://github.com/jaydenseric/graphql-upload)
+ * file size and count limit errors.
+ */
+const payloadTooLargeMessage =
+  /exceeds the \d+ byte size limit|max file uploads exceeded/i;
+
+/**
+ * Checks if the server rejected an upload as too large, with a `413` status
+ * or GraphQL errors about the file size or count limits.
+ * @param resultOrError GraphQL result, or the error of a failed request.
+ * @returns Is it a rejection of a too large upload.
+ */
+export function isPayloadTooLarge(resultOrError: unknown): boolean {
+  if (getStatusCode(resultOrError) === 413) return true;
+
+  return (getGraphQLErrors(resultOrError) ?? []).some((error) => {
+    const { message, extensions } = (error ?? {}) as {
+      message?: unknown;
+      extensions?: { code?: unknown };
+    };
+    return (
+      payloadTooLargeCodes.includes(extensions?.code as string) ||
+      (typeof message === 'string' && payloadTooLargeMessage.test(message))
+    );
+  });
+}
+
+/**
+ * Checks if an error is from a response that isn’t a GraphQL response, such
+ * as an HTML error page of a proxy.
+ */
+function isForeignResponse(error: unknown): boolean {
+  return (
+    ServerParseError.is(error) ||
+    (ServerError.is(error) && /^\s*</.test(error.bodyText))
+  );
+}
+
+/**
+ * Maps the error an upload failed with to an {@link UploadError}, where it’s
+ * specific to uploads. Other errors, such as a `ServerError` with GraphQL
+ * errors, are kept as they are.
+ * @param error Error the upload failed with.
+ * @param details Details of the operation.
+ * @param aborted Whether the operation was aborted.
+ * @param progress Body progress of the latest request, if known.
+ * @returns Mapped error.
+ */
+export function mapUploadError(
+  error: unknown,
+  details: Omit<UploadErrorDetails, 'cause'>,
+  aborted: boolean,
+  progress?: RequestBodyProgress
+): unknown {
+  if (UploadError.is(error)) return error;
+
+  const status = getStatusCode(error) ?? details.status;
+  const mapped: UploadErrorDetails = {
+    ...details,
+    ...(status === undefined ? {} : { status }),
+    // The body is taken as fully sent once the server responds.
+    bodySent: details.bodySent || status !== undefined,
+    cause: error,
+  };
+
+  if (aborted || isAbortError(error)) {
+    return new UploadAbortedError(mapped, progress);
+  }
+  if (isPayloadTooLarge(error)) return new PayloadTooLargeError(mapped);
+  if (isNetworkError(error) || isForeignResponse(error)) {
+    return new UploadNetworkError(mapped);
+  }
+
+  return error;
+}
@@ -0,0 +1,319 @@
+import type { ExtractableFile } from '../extractFiles/isExtractableFile.js';
+import type { FileMetadata } from './transformFile.js';
+
+/**
+ * Body and headers of a file part in a multipart request.
+ */
+export interface MultipartFilePart {
+  /** Content of the part. */
+  body: Blob | ReadableStream<Uint8Array>;
+  /** Size of the content in bytes, if known. Defaults to the `Blob` size. */
+  size?: number;
+  /** File name in the `Content-Disposition` header. */
+  filename?: string;
+  /** `Content-Type` header. Defaults to `application/octet-stream`. */
+  contentType?: string;
+  /** `Content-Disposition` header, replacing the generated one. */
+  contentDisposition?: string;
+}
+
+/**
+ * A file to encode in a multipart request.
+ * @template T Extractable file type.
+ */
+export interface MultipartEncoderFile<T = ExtractableFile> {
+  /** Field name for the file. */
+  fieldName: string;
+  /** File. */
+  file: T;
+  /** Metadata gathered by file transforms. */
+  metadata?: FileMetadata;
+}
+
+/**
+ * Fields of a
+ * [GraphQL multipart request](https://github.com/jaydenseric/graphql-multipart-request-spec)
+ * to encode.
+ * @template T Extractable file type.
+ */
+export interface MultipartEncoderInput<T = ExtractableFile> {
+  /** JSON encoded `operations` field. */
+  operations: string;
+  /** JSON encoded `map` field. */
+  map: string;
+  /** Files, in field order. */
+  files: Array<MultipartEncoderFile<T>>;
+}
+
+/**
+ * Context the upload link encodes a multipart request body in.
+ */
+export interface MultipartEncoderContext {
+  /**
+   * Can the transport send a `ReadableStream` body. It can’t when upload
+   * progress is observed with `XMLHttpRequest`.
+   */
+  streamable: boolean;
+}
+
+/**
+ * An encoded multipart request body.
+ */
+export interface EncodedMultipartBody {
+  /** Request body. */
+  body: ReadableStream<Uint8Array> | Blob;
+  /** `Content-Type` header, including the boundary. */
+  contentType: string;
+  /** Exact body size in bytes, if every part size is known. */
+  contentLength?: number;
+}
+
+/**
+ * Encodes the body of a multipart request, for the upload link `encoder`
+ * option.
+ * @template T Extractable file type.
+ * @param input Fields to encode.
+ * @param context Encoding context.
+ * @returns Encoded body.
+ */
+export interface MultipartEncoder<T = ExtractableFile> {
+  (
+    input: MultipartEncoderInput<T>,
+    context: MultipartEncoderContext
+  ): Promise<EncodedMultipartBody>;
+}
+
+/**
+ * Options for a {@linkcode createMultipartEncoder} encoder.
+ * @template T Extractable file type.
+ */
+export interface MultipartEncoderOptions<T = ExtractableFile> {
+  /**
+   * Boundary delimiting the parts, or a function creating one for each
+   * request. Defaults to a random boundary.
+   */
+  boundary?: string | (() => string);
+  /**
+   * Sends the body as a `ReadableStream`. Defaults to whether the runtime
+   * supports streaming request bodies. Otherwise the body is a `Blob`.
+   */
+  stream?: boolean;
+  /**
+   * Customizes a file part, e.g. its headers, or its body for files that
+   * aren’t a `Blob`.
+   * @param file File.
+   * @param fieldName Field name for the file.
+   * @param metadata Metadata gathered by file transforms.
+   * @returns File part overrides.
+   */
+  filePart?(
+    file: T,
+    fieldName: string,
+    metadata: FileMetadata
+  ): Partial<MultipartFilePart> | void;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Escapes a `Content-Disposition` parameter value, the way browsers encode
+ * form data.
+ */
+function escapeParameter(value: string): string {
+  return value.replace(/\r/g, '%0D').replace(/\n/g, '%0A').replace(/"/g, '%22');
+}
+
+/**
+ * Creates a random multipart boundary.
+ */
+function createBoundary(): string {
+  let boundary = '----HyperseFormBoundary';
+  for (let i = 0; i < 16; i++) {
+    boundary += Math.floor(Math.random() * 16).toString(16);
+  }
+  return boundary;
+}
+
+/**
+ * Checks if a value is a `ReadableStream`, which some runtimes lack.
+ */
+function isReadableStream(value: unknown): value is ReadableStream<Uint8Array> {
+  return (
+    typeof ReadableStream !== 'undefined' && value instanceof ReadableStream
+  );
+}
+
+let requestStreamsSupported: boolean | undefined;
+
+/**
+ * Checks if `fetch` supports streaming request bodies, which requests with
+ * a `ReadableStream` body don’t serialize as text.
+ */
+function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    requestStreamsSupported = false;
+    try {
+      let duplexAccessed = false;
+      const hasContentType = new Request('http://localhost', {
+        body: new ReadableStream(),
+        method: 'POST',
+        get duplex() {
+          duplexAccessed = true;
+          return 'half';
+        },
+      } as RequestInit).headers.has('content-type');
+      requestStreamsSupported = duplexAccessed && !hasContentType;
+    } catch {
+      // Unsupported.
+    }
+  }
+  return requestStreamsSupported;
+}
+
+/**
+ * Reads the chunks of the body segments in order.
+ */
+async function* readSegments(
+  segments: Array<Uint8Array | Blob | ReadableStream<Uint8Array>>
+): AsyncGenerator<Uint8Array> {
+  for (const segment of segments) {
+    if (segment instanceof Uint8Array) {
+      yield segment;
+      continue;
+    }
+
+    const reader = (
+      isReadableStream(segment) ? segment : segment.stream()
+    ).getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+/**
+ * Creates a multipart encoder that encodes the body of
+ * [GraphQL multipart requests](https://github.com/jaydenseric/graphql-multipart-request-spec)
+ * itself, instead of the runtime encoding a `FormData` instance. The body is a
+ * `ReadableStream`, or a `Blob` where streaming request bodies are unsupported,
+ * and its exact size is known up front when every part size is.
+ * @template T Extractable file type.
+ * @param options Options.
+ * @returns Multipart encoder, for the upload link `encoder` option.
+ * @example
+ * ```ts
+ * const link = new UploadHttpLink({
+ *   uri: '/graphql',
+ *   encoder: createMultipartEncoder({
+ *     filePart: (file) => ({ contentType: file.type || 'text/plain' }),
+ *   }),
+ * });
+ * ```
+ */
+export function createMultipartEncoder<T = ExtractableFile>(
+  options: MultipartEncoderOptions<T> = {}
+): MultipartEncoder<T> {
+  const {
+    boundary: boundaryOption = createBoundary,
+    stream,
+    filePart,
+  } = options;
+
+  return async ({ operations, map, files }, { streamable }) => {
+    const boundary =
+      typeof boundaryOption === 'function' ? boundaryOption() : boundaryOption;
+    const encoder = new TextEncoder();
+    const segments: Array<Uint8Array | Blob | ReadableStream<Uint8Array>> = [];
+    let contentLength: number | undefined = 0;
+
+    const appendText = (text: string) => {
+      const bytes = encoder.encode(text);
+      segments.push(bytes);
+      if (contentLength !== undefined) contentLength += bytes.byteLength;
+    };
+
+    const appendHeaders = (headers: Array<string>) => {
+      appendText(`--${boundary}${CRLF}${headers.join(CRLF)}${CRLF}${CRLF}`);
+    };
+
+    appendHeaders([`Content-Disposition: form-data; name="operations"`]);
+    appendText(operations + CRLF);
+    appendHeaders([`Content-Disposition: form-data; name="map"`]);
+    appendText(map + CRLF);
+
+    files.forEach(({ fieldName, file, metadata = {} }) => {
+      const { name, type } = file as { name?: unknown; type?: unknown };
+      const part: MultipartFilePart = {
+        body: file as Blob,
+        filename: typeof name === 'string' ? name : 'blob',
+        contentType:
+          typeof type === 'string' && type ? type : 'application/octet-stream',
+        ...filePart?.(file, fieldName, metadata),
+      };
+
+      appendHeaders([
+        `Content-Disposition: ${
+          part.contentDisposition ??
+          `form-data; name="${escapeParameter(fieldName)}"; filename="${escapeParameter(
+            part.filename ?? 'blob'
+          )}"`
+        }`,
+        `Content-Type: ${part.contentType ?? 'application/octet-stream'}`,
+      ]);
+
+      segments.push(part.body);
+      const size =
+        part.size ?? (isReadableStream(part.body) ? undefined : part.body.size);
+      contentLength =
+        contentLength === undefined || size === undefined
+          ? undefined
+          : contentLength + size;
+
+      appendText(CRLF);
+    });
+
+    appendText(`--${boundary}--${CRLF}`);
+
+    const contentType = `multipart/form-data; boundary=${boundary}`;
+
+    if (streamable && (stream ?? supportsRequestStreams())) {
+      const chunks = readSegments(segments);
+      return {
+        body: new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const { done, value } = await chunks.next();
+            if (done) {
+              controller.close();
+            } else {
+              controller.enqueue(value);
+            }
+          },
+          async cancel() {
+            await chunks.return(undefined);
+          },
+        }),
+        contentType,
+        contentLength,
+      };
+    }
+
+    // Streams of files that aren’t a `Blob` are read into memory.
+    const blobParts: Array<BlobPart> = [];
+    for (const segment of segments) {
+      blobParts.push(
+        isReadableStream(segment)
+          ? await new Response(segment).blob()
+          : (segment as BlobPart)
+      );
+    }
+    const body = new Blob(blobParts);
+
+    return { body, contentType, contentLength: body.size };
+  };
+}
@@ -0,0 +1,68 @@
+import { ServerError } from '@apollo/client/errors';
+
+/**
+ * A [persisted query](https://www.apollographql.com/docs/apollo-server/performance/apq)
+ * error the server responded with.
+ */
+export type PersistedQueryError =
+  'PersistedQueryNotFound' | 'PersistedQueryNotSupported';
+
+const errorsByCode: Record<string, PersistedQueryError> = {
+  PERSISTED_QUERY_NOT_FOUND: 'PersistedQueryNotFound',
+  PERSISTED_QUERY_NOT_SUPPORTED: 'PersistedQueryNotSupported',
+};
+
+/**
+ * Gets the GraphQL errors of a result, or of the body of a `ServerError`.
+ * @param resultOrError GraphQL result, or the error of a failed request.
+ * @returns GraphQL errors, if any.
+ */
+export function getGraphQLErrors(
+  resultOrError: unknown
+): Array<unknown> | undefined {
+  let result = resultOrError;
+
+  if (ServerError.is(resultOrError)) {
+    try {
+      result = JSON.parse(resultOrError.bodyText);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const errors = (result as { errors?: unknown } | null)?.errors;
+  return Array.isArray(errors) ? errors : undefined;
+}
+
+/**
+ * Gets the persisted query error the server responded with, if any, the way
+ * `PersistedQueryLink` detects them.
+ * @param resultOrError GraphQL result, or the error of a failed request.
+ * @returns Persisted query error.
+ */
+export function getPersistedQueryError(
+  resultOrError: unknown
+): PersistedQueryError | undefined {
+  for (const error of getGraphQLErrors(resultOrError) ?? []) {
+    const { message, extensions } = (error ?? {}) as {
+      message?: unknown;
+      extensions?: { code?: unknown };
+    };
+
+    if (
+      message === 'PersistedQueryNotFound' ||
+      message === 'PersistedQueryNotSupported'
+    ) {
+      return message;
+    }
+
+    if (
+      typeof extensions?.code === 'string' &&
+      extensions.code in errorsByCode
+    ) {
+      return errorsByCode[extensions.code];
+    }
+  }
+
+  return undefined;
+}
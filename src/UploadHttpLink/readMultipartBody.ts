@@ -0,0 +1,163 @@
+import type { ApolloLink } from '@apollo/client';
+import {
+  CombinedProtocolErrors,
+  PROTOCOL_ERRORS_SYMBOL,
+  ServerError,
+  ServerParseError,
+} from '@apollo/client/errors';
+
+/**
+ * Checks if a response is a `multipart/mixed` response, as for incremental
+ * delivery (e.g. `@defer`) and multipart subscriptions.
+ * @param response Response.
+ * @returns Is the response `multipart/mixed`.
+ */
+export function isMultipartResponse(response: Response): boolean {
+  const contentType = response.headers?.get('content-type');
+  return !!contentType && /^multipart\/mixed/i.test(contentType);
+}
+
+/**
+ * Gets the boundary delimiter of a `multipart/mixed` response, defaulting to
+ * `-` like `BaseHttpLink`.
+ */
+function getBoundary(response: Response): string {
+  // e.g. multipart/mixed;boundary="graphql";deferSpec=20220824
+  const match = response.headers
+    ?.get('content-type')
+    ?.match(/;\s*boundary=(?:'([^']+)'|"([^"]+)"|([^"'].+?))\s*(?:;|$)/i);
+  return '\r\n--' + (match ? (match[1] ?? match[2] ?? match[3] ?? '-') : '-');
+}
+
+/**
+ * Parses the headers of a multipart part, with lowercase names.
+ */
+function parseHeaders(headerText: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  headerText.split('\n').forEach((line) => {
+    const i = line.indexOf(':');
+    if (i > -1) {
+      headers[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim();
+    }
+  });
+  return headers;
+}
+
+/**
+ * Reads the body of each part of a `multipart/mixed` response as it arrives.
+ */
+async function* consumeMultipartBody(
+  response: Response
+): AsyncGenerator<string> {
+  if (!response.body || typeof response.body.getReader !== 'function') {
+    throw new Error(
+      'Streaming bodies not supported by the provided fetch implementation.'
+    );
+  }
+
+  const boundary = getBoundary(response);
+  const decoder = new TextDecoder('utf-8');
+  const reader = response.body.getReader();
+  let buffer = '';
+  let encounteredBoundary = false;
+
+  // The final boundary is a boundary followed by `--`:
+  // https://www.rfc-editor.org/rfc/rfc2046#section-5.1.1
+  const passedFinalBoundary = () =>
+    encounteredBoundary && buffer[0] === '-' && buffer[1] === '-';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      const searchFrom = buffer.length - boundary.length + 1;
+      buffer +=
+        typeof value === 'string'
+          ? value
+          : decoder.decode(value, { stream: !done });
+
+      let index = buffer.indexOf(boundary, searchFrom);
+      while (index > -1 && !passedFinalBoundary()) {
+        encounteredBoundary = true;
+        const message = buffer.slice(0, index);
+        buffer = buffer.slice(index + boundary.length);
+
+        const headersEnd = message.indexOf('\r\n\r\n');
+        const contentType = parseHeaders(message.slice(0, headersEnd))[
+          'content-type'
+        ];
+        if (
+          contentType &&
+          contentType.toLowerCase().indexOf('application/json') === -1
+        ) {
+          throw new Error(
+            'Unsupported patch content type: application/json is required.'
+          );
+        }
+
+        // The leading line break is left in, as the body is parsed as JSON.
+        const body = message.slice(headersEnd);
+        if (body) yield body;
+
+        index = buffer.indexOf(boundary);
+      }
+
+      if (passedFinalBoundary()) return;
+      if (done) throw new Error('premature end of multipart body');
+    }
+  } finally {
+    reader.cancel();
+  }
+}
+
+/**
+ * Reads a `multipart/mixed` response the way `BaseHttpLink` does, passing on
+ * each payload as it arrives. Supports the
+ * [incremental delivery](https://github.com/graphql/graphql-over-http/blob/main/rfcs/IncrementalDelivery.md)
+ * format used by `@defer`, and the
+ * [multipart subscription](https://www.apollographql.com/docs/graphos/routing/operations/subscriptions/multipart-protocol)
+ * format, whose transport errors are set on the result extensions for Apollo
+ * Client to surface.
+ * @param response Response.
+ * @param next Receives each payload.
+ */
+export async function readMultipartBody(
+  response: Response,
+  next: (result: ApolloLink.Result) => void
+): Promise<void> {
+  for await (const bodyText of consumeMultipartBody(response)) {
+    if (response.status >= 300) {
+      throw new ServerError(
+        `Response not successful: Received status code ${response.status}`,
+        { response, bodyText }
+      );
+    }
+
+    let result: Record<string, any>;
+    try {
+      result = JSON.parse(bodyText);
+    } catch (error) {
+      throw new ServerParseError(error, { response, bodyText });
+    }
+
+    // Heartbeats are empty objects.
+    if (!Object.keys(result).length) continue;
+
+    if (result !== null && typeof result === 'object' && 'payload' in result) {
+      // The server ended the subscription.
+      if (Object.keys(result).length === 1 && result.payload === null) return;
+
+      const payload = { ...result.payload };
+      if ('errors' in result) {
+        payload.extensions = {
+          ...payload.extensions,
+          [PROTOCOL_ERRORS_SYMBOL]: new CombinedProtocolErrors(
+            result.errors ?? []
+          ),
+        };
+      }
+      next(payload);
+    } else {
+      next(result as ApolloLink.Result);
+    }
+  }
+}
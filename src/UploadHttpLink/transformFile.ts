@@ -0,0 +1,210 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { ExtractableFile } from '../extractFiles/isExtractableFile.js';
+import { hashBlob, throwIfAborted } from './utils.js';
+import { getFileDetails, isAccepted } from './validateFiles.js';
+
+/**
+ * Metadata about a file, gathered by file transforms.
+ */
+export type FileMetadata = Record<string, unknown>;
+
+/**
+ * Context of a file being transformed, passed to each transform step.
+ */
+export interface FileTransformContext {
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+  /** GraphQL operation the file belongs to. */
+  operation: ApolloLink.Operation;
+  /** Metadata gathered by the previous steps. */
+  metadata: FileMetadata;
+  /** Aborts when the operation is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a file transform step.
+ * @template T Extractable file type.
+ */
+export interface FileTransformResult<T = ExtractableFile> {
+  /** Replacement file. Defaults to the file as is. */
+  file?: T;
+  /** Metadata to merge into the file metadata. */
+  metadata?: FileMetadata;
+}
+
+/**
+ * A step of the file transform pipeline that runs on each extracted file
+ * before it is uploaded.
+ * @template T Extractable file type.
+ * @param file File to transform.
+ * @param context Transform context.
+ * @returns Replacement file, a result with a replacement file and/or
+ * metadata, or nothing to leave the file as is.
+ */
+export interface FileTransform<T = ExtractableFile> {
+  (
+    file: T,
+    context: FileTransformContext
+  ):
+    | T
+    | FileTransformResult<T>
+    | void
+    | Promise<T | FileTransformResult<T> | void>;
+}
+
+/**
+ * Extracted files after the transform pipeline.
+ * @template T Extractable file type.
+ */
+export interface TransformedFiles<T> {
+  /** Transformed files and their object paths. */
+  files: Map<T, Array<ObjectPath>>;
+  /** Metadata the steps gathered for each transformed file. */
+  metadata: Map<T, FileMetadata>;
+}
+
+/**
+ * Runs the transform steps in order on each extracted file.
+ * @param files Extracted files and their object paths.
+ * @param steps Transform steps.
+ * @param isExtractable Matches extractable files, to tell a replacement file from a result.
+ * @param context Operation and abort signal.
+ * @returns Transformed files.
+ */
+export async function transformFiles<T>(
+  files: Map<T, Array<ObjectPath>>,
+  steps: Array<FileTransform<T>>,
+  isExtractable: (value: unknown) => value is T,
+  context: Pick<FileTransformContext, 'operation' | 'signal'>
+): Promise<TransformedFiles<T>> {
+  const transformed: TransformedFiles<T> = {
+    files: new Map(),
+    metadata: new Map(),
+  };
+
+  for (const [originalFile, paths] of files) {
+    let file = originalFile;
+    let metadata: FileMetadata = {};
+
+    for (const step of steps) {
+      throwIfAborted(context.signal);
+
+      const result = await step(file, { ...context, paths, metadata });
+
+      if (isExtractable(result)) {
+        file = result;
+      } else if (result) {
+        if (result.file !== undefined) file = result.file;
+        if (result.metadata) metadata = { ...metadata, ...result.metadata };
+      }
+    }
+
+    const existingPaths = transformed.files.get(file);
+    if (existingPaths) {
+      existingPaths.push(...paths);
+    } else {
+      transformed.files.set(file, [...paths]);
+    }
+    transformed.metadata.set(file, {
+      ...transformed.metadata.get(file),
+      ...metadata,
+    });
+  }
+
+  throwIfAborted(context.signal);
+
+  return transformed;
+}
+
+/**
+ * Options for a {@linkcode blobTransform} step.
+ */
+export interface BlobTransformOptions {
+  /**
+   * MIME types (e.g. `image/png`), MIME type wildcards (e.g. `image/*`) or
+   * file name extensions (e.g. `.png`) of the files to transform. Defaults to
+   * every file.
+   */
+  accept?: Array<string>;
+}
+
+/**
+ * Creates a file transform step from a
+ * [`Blob`](https://developer.mozilla.org/en-US/docs/Web/API/Blob) to `Blob`
+ * function, such as an image resize. A
+ * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) keeps its
+ * name when the function returns a plain `Blob`.
+ * @param transform Transforms a file.
+ * @param options Options.
+ * @returns File transform step.
+ * @example
+ * ```ts
+ * const resizeImages = blobTransform(
+ *   (blob) => resizeImage(blob, { maxWidth: 2048 }),
+ *   { accept: ['image/jpeg', 'image/png'] }
+ * );
+ * ```
+ */
+export function blobTransform(
+  transform: (
+    blob: Blob,
+    context: FileTransformContext
+  ) => Blob | Promise<Blob>,
+  options: BlobTransformOptions = {}
+): FileTransform {
+  const { accept } = options;
+
+  return async (file, context) => {
+    if (accept && !isAccepted(getFileDetails(file, context.paths), accept)) {
+      return;
+    }
+
+    const blob = await transform(file, context);
+
+    if (
+      typeof File !== 'undefined' &&
+      file instanceof File &&
+      !(blob instanceof File)
+    ) {
+      return new File([blob], file.name, {
+        type: blob.type || file.type,
+        lastModified: file.lastModified,
+      });
+    }
+
+    return blob;
+  };
+}
+
+/**
+ * Options for a {@linkcode contentHash} step.
+ */
+export interface ContentHashOptions {
+  /** WebCrypto digest algorithm. Defaults to `SHA-256`. */
+  algorithm?: 'SHA-256' | 'SHA-384' | 'SHA-512';
+  /** Metadata key for the hex encoded hash. Defaults to `contentHash`. */
+  key?: string;
+}
+
+/**
+ * Creates a file transform step that hashes the file content with
+ * [WebCrypto](https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/digest),
+ * adding the hex encoded hash to the file metadata.
+ * @param options Options.
+ * @returns File transform step.
+ */
+export function contentHash(options: ContentHashOptions = {}): FileTransform {
+  const { algorithm = 'SHA-256', key = 'contentHash' } = options;
+
+  return async (file) => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error(
+        'The `contentHash` file transform requires WebCrypto (`crypto.subtle`).'
+      );
+    }
+
+    return { metadata: { [key]: await hashBlob(file, algorithm) } };
+  };
+}
@@ -0,0 +1,157 @@
+import { ServerError } from '@apollo/client/errors';
+import { maybe } from '@apollo/client/utilities/internal/globals';
+import type { ChunkedUploadProtocol } from './chunkedUpload.js';
+import { backupFetch, markFetchError } from './utils.js';
+
+/**
+ * Options for the [tus](https://tus.io/protocols/resumable-upload) chunked
+ * upload protocol.
+ */
+export interface TusUploadProtocolOptions {
+  /** URI of the tus upload creation endpoint. Defaults to `/files`. */
+  endpoint?: string;
+  /**
+   * [`fetch`](https://developer.mozilla.org/en-US/docs/Web/API/WindowOrWorkerGlobalScope/fetch)
+   * implementation. Defaults to the {@linkcode fetch} global.
+   */
+  fetch?: typeof fetch;
+  /** Headers to send with every tus request, e.g. for authorization. */
+  headers?: Record<string, string>;
+}
+
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Encodes the tus `Upload-Metadata` header value.
+ */
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.keys(metadata)
+    .map((key) => {
+      const bytes = new TextEncoder().encode(metadata[key]);
+      let binary = '';
+      bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+      });
+      return `${key} ${btoa(binary)}`;
+    })
+    .join(',');
+}
+
+/**
+ * Resolves the upload URL from the `Location` header of the creation response,
+ * relative to the endpoint.
+ */
+function resolveLocation(endpoint: string, location: string): string {
+  try {
+    return new URL(
+      location,
+      new URL(
+        endpoint,
+        maybe(() => globalThis.location.href)
+      )
+    ).href;
+  } catch {
+    return location;
+  }
+}
+
+/**
+ * Reads the `Upload-Offset` header of a tus response.
+ */
+async function readOffset(response: Response): Promise<number> {
+  const offset = Number(response.headers.get('upload-offset'));
+  if (!response.ok || !Number.isInteger(offset)) {
+    const bodyText = await response.text();
+    throw new ServerError(
+      `Response not successful: Received status code ${response.status}`,
+      { response, bodyText }
+    );
+  }
+  return offset;
+}
+
+/**
+ * Creates a chunked upload protocol implementing the core of the
+ * [tus resumable upload protocol](https://tus.io/protocols/resumable-upload)
+ * and its creation extension. The upload URL replaces the file in the GraphQL
+ * operation.
+ * @param options Options.
+ * @returns Chunked upload protocol.
+ * @example
+ * ```ts
+ * const link = new UploadHttpLink({
+ *   uri: '/graphql',
+ *   chunkedUpload: {
+ *     protocol: createTusUploadProtocol({ endpoint: '/files' }),
+ *   },
+ * });
+ * ```
+ */
+export function createTusUploadProtocol(
+  options: TusUploadProtocolOptions = {}
+): ChunkedUploadProtocol {
+  const { endpoint = '/files', fetch: preferredFetch, headers } = options;
+
+  const runtimeFetch = (uri: string, init: RequestInit) =>
+    (preferredFetch || maybe(() => fetch) || backupFetch)!(uri, {
+      ...init,
+      headers: { ...headers, 'Tus-Resumable': TUS_VERSION, ...init.headers },
+    }).catch((error) => {
+      throw markFetchError(error);
+    });
+
+  return {
+    async createSession(file, { signal }) {
+      const metadata: Record<string, string> = {};
+      if ('name' in file && typeof file.name === 'string') {
+        metadata.filename = file.name;
+      }
+      if (file.type) metadata.filetype = file.type;
+
+      const response = await runtimeFetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Upload-Length': String(file.size),
+          'Upload-Metadata': encodeMetadata(metadata),
+        },
+        signal,
+      });
+
+      const location = response.headers.get('location');
+
+      if (!response.ok || !location) {
+        const bodyText = await response.text();
+        throw new ServerError(
+          `Response not successful: Received status code ${response.status}`,
+          { response, bodyText }
+        );
+      }
+
+      return { id: resolveLocation(endpoint, location), offset: 0 };
+    },
+
+    async sendChunk(session, chunk, offset, { signal }) {
+      return readOffset(
+        await runtimeFetch(session.id, {
+          method: 'PATCH',
+          headers: {
+            'Upload-Offset': String(offset),
+            'Content-Type': 'application/offset+octet-stream',
+          },
+          body: chunk,
+          signal,
+        })
+      );
+    },
+
+    async getOffset(session, { signal }) {
+      return readOffset(
+        await runtimeFetch(session.id, {
+          method: 'HEAD',
+          cache: 'no-store',
+          signal,
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { RequestBodyProgress } from './uploadProgress.js';
+
+/**
+ * A cancellation of an operation with files, or of one of its files, with the
+ * upload link `cancel` or `cancelAll` methods.
+ */
+export interface UploadCancelEvent {
+  /** ID of the upload, from the `uploadId` context option, if any. */
+  uploadId?: string;
+  /** Cancelled GraphQL operation. */
+  operation: ApolloLink.Operation;
+  /**
+   * Object path of the cancelled file, which was dropped from the operation,
+   * or none if the whole operation was cancelled.
+   */
+  path?: ObjectPath;
+  /** Progress of the request body when the operation was cancelled, if known. */
+  progress?: RequestBodyProgress;
+}
+
+/**
+ * Receives {@link UploadCancelEvent upload cancellations}.
+ */
+export interface UploadCancelHandler {
+  (event: UploadCancelEvent): void;
+}
+
+/**
+ * An operation with files in flight, which an upload link can cancel.
+ */
+export interface ActiveUpload {
+  /** ID of the upload, from the `uploadId` context option, if any. */
+  uploadId?: string;
+  /**
+   * Cancels the operation, or drops one of its files if its request hasn’t
+   * started.
+   * @param path Object path of the file to cancel.
+   * @returns Whether anything was cancelled.
+   */
+  cancel(path?: ObjectPath): boolean;
+}
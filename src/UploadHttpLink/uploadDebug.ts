@@ -0,0 +1,279 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { UploadFileDetails } from './errors.js';
+import { type FileEntry, getHeaderEntries } from './utils.js';
+import { getFileDetails } from './validateFiles.js';
+
+/**
+ * A field of a multipart request, as sent. File contents are never included.
+ */
+export type UploadFormField =
+  | {
+      /** Field name. */
+      name: 'operations' | 'map';
+      /** JSON encoded value, with the files replaced by `null`. */
+      value: string;
+    }
+  | {
+      /** Field name. */
+      name: string;
+      /** Details of the file. */
+      file: UploadFileDetails;
+    };
+
+interface UploadDebugEventBase {
+  /** GraphQL operation. */
+  operation: ApolloLink.Operation;
+  /** Milliseconds since the epoch the event occurred at. */
+  timestamp: number;
+}
+
+/**
+ * Files were extracted from an operation.
+ */
+export interface UploadExtractEvent extends UploadDebugEventBase {
+  type: 'extract';
+  /** Extracted files. */
+  files: Array<UploadFileDetails>;
+}
+
+/**
+ * A multipart request is being sent.
+ */
+export interface UploadRequestEvent extends UploadDebugEventBase {
+  type: 'request';
+  /** Chosen URI. */
+  uri: string;
+  /** Request method. */
+  method: string;
+  /** Final request headers, with the configured names redacted. */
+  headers: Record<string, string>;
+  /** Fields of the multipart request, in order. */
+  fields: Array<UploadFormField>;
+}
+
+/**
+ * A multipart request received a response.
+ */
+export interface UploadResponseEvent extends UploadDebugEventBase {
+  type: 'response';
+  /** Response status code. */
+  status: number;
+  /** Milliseconds since the request was sent. */
+  duration: number;
+}
+
+/**
+ * The operation failed.
+ */
+export interface UploadErrorEvent extends UploadDebugEventBase {
+  type: 'error';
+  /** Error. */
+  error: unknown;
+  /** Milliseconds since the files were extracted. */
+  duration: number;
+}
+
+/**
+ * A structured event of a phase of an operation with files.
+ */
+export type UploadDebugEvent =
+  | UploadExtractEvent
+  | UploadRequestEvent
+  | UploadResponseEvent
+  | UploadErrorEvent;
+
+/**
+ * Span attribute values.
+ */
+export type UploadSpanAttributes = Record<
+  string,
+  string | number | boolean | Array<string> | undefined
+>;
+
+/**
+ * A tracing span, as a subset of the
+ * [OpenTelemetry `Span`](https://opentelemetry.io/docs/specs/otel/trace/api/#span).
+ */
+export interface UploadSpan {
+  setAttributes(attributes: UploadSpanAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/**
+ * Starts tracing spans, as a subset of the
+ * [OpenTelemetry `Tracer`](https://opentelemetry.io/docs/specs/otel/trace/api/#tracer),
+ * so an OpenTelemetry tracer can be used as is.
+ */
+export interface UploadTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: UploadSpanAttributes }
+  ): UploadSpan;
+}
+
+/**
+ * Options for instrumenting operations with files.
+ */
+export interface UploadDebugOptions {
+  /**
+   * Receives a structured event for each phase of an operation with files.
+   * Defaults to logging with `console.debug`, unless a `tracer` is set.
+   * @param event Event.
+   */
+  onEvent?(event: UploadDebugEvent): void;
+  /**
+   * Names of the request headers to redact from events.
+   * Defaults to `['authorization', 'cookie']`.
+   */
+  redactHeaders?: Array<string>;
+  /**
+   * Traces each operation with files as a span, such as an
+   * [OpenTelemetry](https://opentelemetry.io) tracer from
+   * `trace.getTracer(name)`.
+   */
+  tracer?: UploadTracer;
+}
+
+/**
+ * Instruments the phases of an operation with files.
+ */
+export interface UploadDebugger {
+  /** Reports the extracted files. */
+  extract(files: Map<unknown, Array<ObjectPath>>): void;
+  /** Reports a multipart request being sent. */
+  request(
+    uri: string,
+    init: { method?: string; headers?: HeadersInit },
+    fields: { operations: string; map: string; files: Array<FileEntry> }
+  ): void;
+  /** Reports the response of the multipart request. */
+  response(status: number): void;
+  /** Reports the operation settling, with its error if it failed. */
+  end(error?: unknown): void;
+}
+
+// OpenTelemetry `SpanKind.CLIENT` and `SpanStatusCode` values.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Logs an event to the console.
+ */
+function logEvent(event: UploadDebugEvent): void {
+  console.debug(`[apollo-upload-client] ${event.type}`, event);
+}
+
+/**
+ * Creates an instrumentation of an operation with files, if enabled.
+ * @param options `debug` option of the upload link.
+ * @param operation GraphQL operation.
+ * @returns Instrumentation, or `null` if disabled.
+ */
+export function createUploadDebugger(
+  options: boolean | UploadDebugOptions | undefined,
+  operation: ApolloLink.Operation
+): UploadDebugger | null {
+  if (!options) return null;
+
+  const {
+    onEvent = options === true || !options.tracer ? logEvent : undefined,
+    redactHeaders = ['authorization', 'cookie'],
+    tracer,
+  } = options === true ? {} : options;
+
+  const redacted = new Set(redactHeaders.map((name) => name.toLowerCase()));
+  const startedAt = Date.now();
+  let requestedAt = startedAt;
+  let ended = false;
+
+  const emit = <Event extends UploadDebugEvent>(
+    event: Omit<Event, 'operation' | 'timestamp'>
+  ) => {
+    onEvent?.({ ...event, operation, timestamp: Date.now() } as Event);
+  };
+
+  const span = tracer?.startSpan(
+    `GraphQL upload ${operation.operationName || 'anonymous'}`,
+    {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        'graphql.operation.name': operation.operationName || undefined,
+        'graphql.operation.type': operation.operationType,
+      },
+    }
+  );
+
+  return {
+    extract: (files) => {
+      const details = Array.from(files, ([file, paths]) =>
+        getFileDetails(file, paths)
+      );
+      span?.setAttributes({
+        'upload.file_count': details.length,
+        'upload.total_size': details.reduce(
+          (total, { size }) => total + size,
+          0
+        ),
+      });
+      emit<UploadExtractEvent>({ type: 'extract', files: details });
+    },
+    request: (uri, { method = 'POST', headers = {} }, fields) => {
+      requestedAt = Date.now();
+      span?.setAttributes({
+        'http.request.method': method,
+        'url.full': uri,
+      });
+      emit<UploadRequestEvent>({
+        type: 'request',
+        uri,
+        method,
+        headers: Object.fromEntries(
+          getHeaderEntries(headers).map(([name, value]) => [
+            name,
+            redacted.has(name.toLowerCase()) ? '[REDACTED]' : value,
+          ])
+        ),
+        fields: [
+          { name: 'operations', value: fields.operations },
+          { name: 'map', value: fields.map },
+          ...fields.files.map(({ fieldName, file, paths }) => ({
+            name: fieldName,
+            file: getFileDetails(file, paths),
+          })),
+        ],
+      });
+    },
+    response: (status) => {
+      span?.setAttributes({ 'http.response.status_code': status });
+      emit<UploadResponseEvent>({
+        type: 'response',
+        status,
+        duration: Date.now() - requestedAt,
+      });
+    },
+    end: (error) => {
+      if (ended) return;
+      ended = true;
+
+      if (error === undefined) {
+        span?.setStatus({ code: SPAN_STATUS_OK });
+      } else {
+        emit<UploadErrorEvent>({
+          type: 'error',
+          error,
+          duration: Date.now() - startedAt,
+        });
+        span?.recordException(error instanceof Error ? error : String(error));
+        span?.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      span?.end();
+    },
+  };
+}
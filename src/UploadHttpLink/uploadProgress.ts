@@ -0,0 +1,113 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import { type FileEntry, getFileSize } from './utils.js';
+
+/**
+ * Upload progress of a single file within a multipart request.
+ */
+export interface UploadFileProgress {
+  /** Field name of the file in the multipart request. */
+  fieldName: string;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+  /** Estimated bytes of the file sent so far. */
+  loaded: number;
+  /** Byte size of the file. */
+  total: number;
+}
+
+/**
+ * Upload progress of a multipart request.
+ */
+export interface UploadProgressEvent {
+  /** Bytes of the request body sent so far. */
+  loaded: number;
+  /** Total bytes of the request body. */
+  total: number;
+  /** GraphQL operation being uploaded. */
+  operation: ApolloLink.Operation;
+  /**
+   * Per file breakdown, in multipart field order. As the transport only
+   * reports progress for the whole body, file progress is estimated by laying
+   * the files out after the `operations` and `map` fields.
+   */
+  files: Array<UploadFileProgress>;
+}
+
+/**
+ * Receives upload progress of multipart requests.
+ */
+export interface UploadProgressHandler {
+  (event: UploadProgressEvent): void;
+}
+
+/**
+ * Raw body progress, as reported by the transport.
+ */
+export interface RequestBodyProgress {
+  /** Bytes of the request body sent so far. */
+  loaded: number;
+  /** Total bytes of the request body, or `0` if not computable. */
+  total: number;
+}
+
+/**
+ * Reports raw body progress as
+ * {@link UploadProgressEvent upload progress events}.
+ */
+export interface UploadProgressReporter {
+  /** Reports raw body progress from the transport. */
+  report(progress: RequestBodyProgress): void;
+  /**
+   * Reports the body as fully sent, unless already reported. Used once there
+   * is a response, for transports that can’t report progress.
+   */
+  complete(): void;
+}
+
+/**
+ * Creates a reporter of {@link UploadProgressEvent upload progress events}.
+ * @param operation GraphQL operation being uploaded.
+ * @param fileEntries Extracted files in multipart field order.
+ * @param handlers Handlers to report to.
+ * @returns Upload progress reporter.
+ */
+export function createUploadProgressReporter(
+  operation: ApolloLink.Operation,
+  fileEntries: Array<FileEntry>,
+  handlers: Array<UploadProgressHandler>
+): UploadProgressReporter {
+  const fileSizes = fileEntries.map(({ file }) => getFileSize(file));
+  const filesTotal = fileSizes.reduce((sum, size) => sum + size, 0);
+  let last: RequestBodyProgress | undefined;
+
+  const report = (progress: RequestBodyProgress) => {
+    last = progress;
+    const { loaded } = progress;
+    // Without a computable total, the files are the best known lower bound.
+    const total = Math.max(progress.total, loaded, filesTotal);
+    let fileStart = total - filesTotal;
+
+    const event: UploadProgressEvent = {
+      loaded,
+      total,
+      operation,
+      files: fileEntries.map(({ fieldName, paths }, index) => {
+        const size = fileSizes[index];
+        const fileLoaded = Math.min(Math.max(loaded - fileStart, 0), size);
+        fileStart += size;
+        return { fieldName, paths, loaded: fileLoaded, total: size };
+      }),
+    };
+
+    handlers.forEach((handler) => handler(event));
+  };
+
+  return {
+    report,
+    complete() {
+      const total = Math.max(last?.total ?? 0, last?.loaded ?? 0, filesTotal);
+      if (!last || last.loaded < total) report({ loaded: total, total });
+    },
+  };
+}
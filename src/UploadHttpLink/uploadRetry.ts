@@ -0,0 +1,95 @@
+import type { ApolloLink } from '@apollo/client';
+import { getStatusCode, isAbortError, isNetworkError, wait } from './utils.js';
+
+/**
+ * Options for retrying failed multipart requests.
+ */
+export interface UploadRetryOptions {
+  /** Maximum number of attempts, including the first. Defaults to `3`. */
+  maxAttempts?: number;
+  /**
+   * Milliseconds to wait before the first retry, doubling for each further
+   * retry. Defaults to `300`.
+   */
+  initialDelay?: number;
+  /** Maximum milliseconds to wait before a retry. Defaults to `Infinity`. */
+  maxDelay?: number;
+  /**
+   * Randomizes each delay between `0` and its computed value, so clients
+   * don’t retry in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean;
+  /**
+   * Response status codes to retry.
+   * Defaults to `[408, 429, 500, 502, 503, 504]`.
+   */
+  retryStatuses?: Array<number>;
+  /**
+   * Retries network errors, where no response was received and `fetch`
+   * rejected with a `TypeError`. Defaults to `true`.
+   */
+  retryNetworkErrors?: boolean;
+  /**
+   * Decides whether to retry, instead of `retryStatuses` and
+   * `retryNetworkErrors`. Aborted operations are never retried.
+   * @param error Error of the failed attempt.
+   * @param attempt Number of the failed attempt, starting at `1`.
+   * @param operation GraphQL operation.
+   * @returns Should the request be retried.
+   */
+  shouldRetry?(
+    error: unknown,
+    attempt: number,
+    operation: ApolloLink.Operation
+  ): boolean | Promise<boolean>;
+}
+
+const defaultRetryStatuses = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Sends a request, retrying failures according to the options with
+ * exponential backoff.
+ * @param send Sends an attempt of the request. Called again for each retry.
+ * @param options Retry options.
+ * @param operation GraphQL operation.
+ * @param signal Aborts when the operation is cancelled, preventing retries.
+ * @returns Result of the first successful attempt.
+ */
+export async function retryUpload<Result>(
+  send: () => Promise<Result>,
+  options: UploadRetryOptions,
+  operation: ApolloLink.Operation,
+  signal?: AbortSignal
+): Promise<Result> {
+  const {
+    maxAttempts = 3,
+    initialDelay = 300,
+    maxDelay = Infinity,
+    jitter = true,
+    retryStatuses = defaultRetryStatuses,
+    retryNetworkErrors = true,
+    shouldRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+
+      const statusCode = getStatusCode(error);
+      const retry = shouldRetry
+        ? await shouldRetry(error, attempt, operation)
+        : statusCode === undefined
+          ? retryNetworkErrors && isNetworkError(error)
+          : retryStatuses.includes(statusCode);
+
+      if (!retry) throw error;
+
+      const delay = Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+      await wait(jitter ? Math.random() * delay : delay, signal);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { createAbortError } from './utils.js';
+
+/**
+ * Options for an {@linkcode UploadScheduler}.
+ */
+export interface UploadSchedulerOptions {
+  /** Maximum number of operations uploading at once. Defaults to `4`. */
+  maxConcurrent?: number;
+  /**
+   * Maximum bytes of files uploading at once. An operation larger than the
+   * limit starts once nothing else is uploading. Defaults to `Infinity`.
+   */
+  maxBytesInFlight?: number;
+}
+
+/**
+ * How an operation’s upload is scheduled.
+ */
+export interface ScheduledUploadOptions {
+  /** Bytes of the operation’s files. Defaults to `0`. */
+  size?: number;
+  /**
+   * Operations with a higher priority start first, and operations of the
+   * same priority in the order they were scheduled. Defaults to `0`.
+   */
+  priority?: number;
+  /** Removes the operation from the queue if it aborts before starting. */
+  signal?: AbortSignal | null;
+}
+
+/**
+ * An operation waiting for its upload to start.
+ */
+interface PendingUpload {
+  size: number;
+  priority: number;
+  start(): void;
+}
+
+/**
+ * Limits how many operations with files upload at once, by count and/or
+ * bytes in flight, starting queued operations by priority and then in order.
+ * Give it to upload links with the `scheduler` option. A scheduler can be
+ * shared by several links, to limit their uploads together.
+ *
+ * Queued operations are tracked as `queued`, and never start their requests
+ * if cancelled before their turn.
+ * @example
+ * ```ts
+ * const link = new UploadHttpLink({
+ *   uri: '/graphql',
+ *   scheduler: new UploadScheduler({
+ *     maxConcurrent: 3,
+ *     maxBytesInFlight: 50 * 1024 * 1024,
+ *   }),
+ * });
+ *
+ * // Uploads ahead of the queued photos.
+ * client.mutate({
+ *   mutation: UPLOAD_AVATAR,
+ *   variables: { file },
+ *   context: { upload: { priority: 1 } },
+ * });
+ * ```
+ */
+export class UploadScheduler {
+  private maxConcurrent: number;
+  private maxBytesInFlight: number;
+  private pending: Array<PendingUpload> = [];
+  private activeCount = 0;
+  private bytesInFlight = 0;
+
+  constructor(options: UploadSchedulerOptions = {}) {
+    const { maxConcurrent = 4, maxBytesInFlight = Infinity } = options;
+
+    if (!(maxConcurrent >= 1)) {
+      throw new RangeError(
+        'The upload scheduler `maxConcurrent` option must be at least 1.'
+      );
+    }
+
+    this.maxConcurrent = maxConcurrent;
+    this.maxBytesInFlight = maxBytesInFlight;
+  }
+
+  /**
+   * Number of operations uploading.
+   */
+  get active(): number {
+    return this.activeCount;
+  }
+
+  /**
+   * Number of operations waiting for their upload to start.
+   */
+  get queued(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Runs an operation’s upload once the limits allow it. Upload links call it
+   * for each operation with files.
+   * @param upload Uploads the operation’s files.
+   * @param options Scheduling options.
+   * @returns Result of the upload.
+   */
+  schedule<Result>(
+    upload: () => Promise<Result>,
+    options: ScheduledUploadOptions = {}
+  ): Promise<Result> {
+    const { size = 0, priority = 0, signal } = options;
+
+    return new Promise<Result>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        this.pending = this.pending.filter((queued) => queued !== pending);
+        reject(createAbortError(signal));
+      };
+
+      const pending: PendingUpload = {
+        size,
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.activeCount++;
+          this.bytesInFlight += size;
+
+          Promise.resolve()
+            .then(upload)
+            .then(resolve, reject)
+            .finally(() => {
+              this.activeCount--;
+              this.bytesInFlight -= size;
+              this.startNext();
+            });
+        },
+      };
+
+      // After the last queued operation with the same or a higher priority.
+      const index = this.pending.findIndex(
+        (queued) => queued.priority < priority
+      );
+      this.pending.splice(
+        index === -1 ? this.pending.length : index,
+        0,
+        pending
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.startNext();
+    });
+  }
+
+  /**
+   * Starts queued operations in order, while the limits allow.
+   */
+  private startNext(): void {
+    for (;;) {
+      const next = this.pending[0];
+      if (
+        !next ||
+        this.activeCount >= this.maxConcurrent ||
+        (this.bytesInFlight > 0 &&
+          this.bytesInFlight + next.size > this.maxBytesInFlight)
+      ) {
+        return;
+      }
+      this.pending.shift();
+      next.start();
+    }
+  }
+}
@@ -54,3 +54,205 @@ export function createAbortController(): AbortController | null {
   }
   return null;
 }
+
+/**
+ * A file extracted from the GraphQL operation, along with the
+ * [GraphQL multipart request](https://github.com/jaydenseric/graphql-multipart-request-spec)
+ * field name it is appended under.
+ * @template T Extractable file type.
+ */
+export interface FileEntry<T = unknown> {
+  /** Field name of the file in the multipart request, also used as the `map` key. */
+  fieldName: string;
+  /** Extracted file. */
+  file: T;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<string>;
+}
+
+/**
+ * Numbers the extracted files in insertion order, producing the entries used
+ * to build the multipart `map` field and the file fields.
+ */
+export function createFileEntries<T>(
+  files: Map<T, Array<string>>
+): Array<FileEntry<T>> {
+  const entries: Array<FileEntry<T>> = [];
+  files.forEach((paths, file) => {
+    entries.push({ fieldName: String(entries.length + 1), file, paths });
+  });
+  return entries;
+}
+
+/**
+ * Gets the byte size of an extracted file, or `0` if it doesn’t expose one.
+ */
+export function getFileSize(file: unknown): number {
+  const size = (file as { size?: unknown } | null)?.size;
+  return typeof size === 'number' ? size : 0;
+}
+
+/**
+ * Sets the value at an object path (e.g. `variables.files.0`) within an
+ * object tree, such as an extraction clone.
+ */
+export function setObjectPath(
+  target: unknown,
+  path: string,
+  value: unknown
+): void {
+  const keys = path.split('.');
+  const lastKey = keys.pop()!;
+  let parent = target as Record<string, unknown>;
+  for (const key of keys) {
+    parent = parent[key] as Record<string, unknown>;
+  }
+  parent[lastKey] = value;
+}
+
+/**
+ * Gets the name and value of each header, given as a `Headers` instance, an
+ * array of pairs or a record.
+ */
+export function getHeaderEntries(
+  headers?: HeadersInit
+): Array<[string, string]> {
+  if (!headers) return [];
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    const entries: Array<[string, string]> = [];
+    headers.forEach((value, name) => {
+      entries.push([name, value]);
+    });
+    return entries;
+  }
+  return Array.isArray(headers)
+    ? headers.map(([name, value]) => [name, value])
+    : Object.entries(headers);
+}
+
+/**
+ * Errors a `fetch` rejected with.
+ */
+const fetchErrors = new WeakSet<object>();
+
+/**
+ * Marks an error a `fetch` rejected with, so a `TypeError` among them is known
+ * to be a network error rather than one of other code.
+ * @param error Error the `fetch` rejected with.
+ * @returns The error.
+ */
+export function markFetchError(error: unknown): unknown {
+  if (typeof error === 'object' && error !== null) fetchErrors.add(error);
+  return error;
+}
+
+/**
+ * Checks if an error is a network error, where a `fetch` rejected with a
+ * `TypeError` without a response.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError && fetchErrors.has(error);
+}
+
+/**
+ * Creates the error a `fetch` rejects with when aborted.
+ */
+export function createAbortError(signal?: AbortSignal | null): unknown {
+  if (signal?.reason !== undefined) return signal.reason;
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Hashes the content of a blob with
+ * [WebCrypto](https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/digest).
+ * @param blob Blob to hash.
+ * @param algorithm WebCrypto digest algorithm.
+ * @returns Hex encoded hash.
+ */
+export async function hashBlob(blob: Blob, algorithm: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    algorithm,
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * Checks if an error is from an aborted request.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+/**
+ * Gets the response status code an error carries, such as that of a
+ * `ServerError` or `ServerParseError`.
+ */
+export function getStatusCode(error: unknown): number | undefined {
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  return typeof statusCode === 'number' ? statusCode : undefined;
+}
+
+/**
+ * Throws the abort reason if the signal has aborted. Unlike
+ * `AbortSignal.throwIfAborted`, this works with the `AbortController`
+ * polyfill React Native uses.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw signal.reason;
+}
+
+/**
+ * Waits for the delay, rejecting with the abort reason if the signal aborts.
+ */
+export function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls the async callback for each item, with at most `limit` calls pending
+ * at once. After a failure no further calls start, and the first error is
+ * thrown once the pending calls settle.
+ */
+export async function forEachConcurrently<T>(
+  items: Array<T>,
+  limit: number,
+  callback: (item: T) => Promise<void>
+): Promise<void> {
+  let index = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && index < items.length) {
+      try {
+        await callback(items[index++]);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  );
+
+  if (failure) throw failure.error;
+}
@@ -0,0 +1,221 @@
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import {
+  type UploadErrorDetails,
+  type UploadFileDetails,
+  UploadValidationError,
+  type UploadValidationViolation,
+} from './errors.js';
+import { getFileSize } from './utils.js';
+
+/**
+ * A validation rule for the files of an operation. Each check applies to the
+ * files with an object path matching the rule `paths`.
+ * @template T Extractable file type.
+ */
+export interface UploadValidationRule<T = unknown> {
+  /**
+   * Object path patterns of the files the rule applies to, such as
+   * `variables.input.avatar` or `variables.attachments.*`. A `*` segment
+   * matches any one segment, a `**` segment any number of segments.
+   * Defaults to every file.
+   */
+  paths?: string | Array<string>;
+  /** Maximum byte size of each file. */
+  maxFileSize?: number;
+  /** Maximum byte size of all the files together. */
+  maxTotalSize?: number;
+  /** Maximum number of files. */
+  maxFiles?: number;
+  /**
+   * Allowed MIME types (e.g. `image/png`), MIME type wildcards (e.g.
+   * `image/*`) or file name extensions (e.g. `.png`).
+   */
+  accept?: Array<string>;
+  /**
+   * Custom check of each file.
+   * @param file File to check.
+   * @param paths Object paths of the file within the GraphQL operation.
+   * @returns Description of the violation, if any.
+   */
+  validate?(file: T, paths: Array<ObjectPath>): string | undefined | void;
+}
+
+/**
+ * Checks if an object path matches a pattern.
+ */
+function matchSegments(
+  pattern: Array<string>,
+  segments: Array<string>
+): boolean {
+  if (!pattern.length) return !segments.length;
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    return (
+      matchSegments(rest, segments) ||
+      (segments.length > 0 && matchSegments(pattern, segments.slice(1)))
+    );
+  }
+  return (
+    segments.length > 0 &&
+    (head === '*' || head === segments[0]) &&
+    matchSegments(rest, segments.slice(1))
+  );
+}
+
+/**
+ * Checks if an {@link ObjectPath object path} matches a pattern, where a `*`
+ * segment matches any one segment and a `**` segment any number of segments.
+ * @param pattern Object path pattern, e.g. `variables.attachments.*`.
+ * @param path Object path, e.g. `variables.attachments.0`.
+ * @returns Does the object path match the pattern.
+ */
+export function matchObjectPath(pattern: string, path: ObjectPath): boolean {
+  return matchSegments(pattern.split('.'), path.split('.'));
+}
+
+/**
+ * Gets the details of an extracted file, for error reporting.
+ */
+export function getFileDetails(
+  file: unknown,
+  paths: Array<ObjectPath>
+): UploadFileDetails {
+  const { name, type } = (file ?? {}) as { name?: unknown; type?: unknown };
+  return {
+    ...(typeof name === 'string' ? { name } : {}),
+    size: getFileSize(file),
+    ...(typeof type === 'string' && type ? { type } : {}),
+    paths,
+  };
+}
+
+/**
+ * Checks if a file is accepted by a list of MIME types and extensions.
+ */
+export function isAccepted(
+  details: UploadFileDetails,
+  accept: Array<string>
+): boolean {
+  const type = details.type?.toLowerCase() ?? '';
+  const name = details.name?.toLowerCase() ?? '';
+  return accept.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    if (allowed.startsWith('.')) return name.endsWith(allowed);
+    if (allowed.endsWith('/*')) return type.startsWith(allowed.slice(0, -1));
+    return type === allowed;
+  });
+}
+
+/**
+ * Describes a file for a violation message.
+ */
+function describe({ name, paths }: UploadFileDetails): string {
+  return `${name ? `\`${name}\` at ` : ''}\`${paths.join('`, `')}\``;
+}
+
+/**
+ * Validates the extracted files of an operation against rules.
+ * @param files Extracted files and their object paths.
+ * @param rules Validation rules.
+ * @param details Details of the operation, for the error.
+ * @throws {UploadValidationError} If any rule is violated, listing every violation.
+ */
+export function validateFiles<T>(
+  files: Map<T, Array<ObjectPath>>,
+  rules: Array<UploadValidationRule<T>>,
+  details?: UploadErrorDetails
+): void {
+  const violations: Array<UploadValidationViolation> = [];
+
+  rules.forEach((rule) => {
+    const patterns =
+      rule.paths === undefined
+        ? undefined
+        : Array.isArray(rule.paths)
+          ? rule.paths
+          : [rule.paths];
+
+    const matched: Array<[T, UploadFileDetails]> = [];
+    files.forEach((paths, file) => {
+      if (
+        !patterns ||
+        paths.some((path) =>
+          patterns.some((pattern) => matchObjectPath(pattern, path))
+        )
+      ) {
+        matched.push([file, getFileDetails(file, paths)]);
+      }
+    });
+
+    if (!matched.length) return;
+
+    const { maxFileSize, maxTotalSize, maxFiles, accept, validate } = rule;
+    const details = matched.map(([, fileDetails]) => fileDetails);
+
+    if (maxFileSize !== undefined) {
+      const tooLarge = details.filter(({ size }) => size > maxFileSize);
+      if (tooLarge.length) {
+        violations.push({
+          check: 'maxFileSize',
+          message: `Files exceed the maximum size of ${maxFileSize} bytes: ${tooLarge
+            .map(describe)
+            .join(', ')}.`,
+          files: tooLarge,
+        });
+      }
+    }
+
+    if (maxTotalSize !== undefined) {
+      const totalSize = details.reduce((sum, { size }) => sum + size, 0);
+      if (totalSize > maxTotalSize) {
+        violations.push({
+          check: 'maxTotalSize',
+          message: `Files total ${totalSize} bytes, exceeding the maximum of ${maxTotalSize} bytes: ${details
+            .map(describe)
+            .join(', ')}.`,
+          files: details,
+        });
+      }
+    }
+
+    if (maxFiles !== undefined && details.length > maxFiles) {
+      violations.push({
+        check: 'maxFiles',
+        message: `${details.length} files exceed the maximum of ${maxFiles}: ${details
+          .map(describe)
+          .join(', ')}.`,
+        files: details,
+      });
+    }
+
+    if (accept) {
+      const rejected = details.filter(
+        (fileDetails) => !isAccepted(fileDetails, accept)
+      );
+      if (rejected.length) {
+        violations.push({
+          check: 'accept',
+          message: `Files aren’t of an accepted type (${accept.join(', ')}): ${rejected
+            .map(describe)
+            .join(', ')}.`,
+          files: rejected,
+        });
+      }
+    }
+
+    if (validate) {
+      matched.forEach(([file, fileDetails]) => {
+        const message = validate(file, fileDetails.paths);
+        if (message) {
+          violations.push({
+            check: 'validate',
+            message: `${describe(fileDetails)}: ${message}`,
+            files: [fileDetails],
+          });
+        }
+      });
+    }
+  });
+
+  if (violations.length) throw new UploadValidationError(violations, details);
+}
@@ -0,0 +1,118 @@
+import type { RequestBodyProgress } from './uploadProgress.js';
+import { createAbortError, getHeaderEntries } from './utils.js';
+
+/**
+ * [`fetch`](https://developer.mozilla.org/en-US/docs/Web/API/WindowOrWorkerGlobalScope/fetch)
+ * options for multipart requests. Transports that can observe the request
+ * body being sent report it to `onUploadProgress`; others ignore it.
+ */
+export interface UploadRequestInit extends RequestInit {
+  /** Receives request body progress. */
+  onUploadProgress?: (progress: RequestBodyProgress) => void;
+  /** Must be `half` for a `ReadableStream` body. */
+  duplex?: 'half';
+}
+
+/**
+ * Response statuses that must not have a body.
+ */
+const nullBodyStatuses = [101, 204, 205, 304];
+
+/**
+ * Parses the raw headers string of an
+ * [`XMLHttpRequest`](https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest).
+ */
+function parseResponseHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  rawHeaders
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers.append(
+          line.slice(0, index).trim(),
+          line.slice(index + 1).trim()
+        );
+      }
+    });
+  return headers;
+}
+
+/**
+ * A [`fetch`](https://developer.mozilla.org/en-US/docs/Web/API/WindowOrWorkerGlobalScope/fetch)
+ * compatible transport built on
+ * [`XMLHttpRequest`](https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest),
+ * as `fetch` can’t report upload progress. Works in browsers and React Native.
+ * @param uri Request URI.
+ * @param options Request options.
+ * @returns Response, with the body buffered as text.
+ */
+export function xhrFetch(
+  uri: string,
+  options: UploadRequestInit = {}
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal, onUploadProgress } = options;
+
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+
+    const onAbort = () => {
+      xhr.abort();
+      reject(createAbortError(signal!));
+    };
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    xhr.open(options.method || 'POST', uri, true);
+    getHeaderEntries(options.headers).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+    xhr.withCredentials = options.credentials === 'include';
+
+    if (onUploadProgress && xhr.upload) {
+      xhr.upload.onprogress = (event) => {
+        onUploadProgress({
+          loaded: event.loaded,
+          total: event.lengthComputable ? event.total : 0,
+        });
+      };
+    }
+
+    xhr.onload = () => {
+      cleanup();
+      const status = xhr.status;
+      resolve(
+        new Response(
+          nullBodyStatuses.includes(status) ? null : xhr.responseText,
+          {
+            status,
+            statusText: xhr.statusText,
+            headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+          }
+        )
+      );
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(new TypeError('Network request timed out'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.send(options.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+}
@@ -0,0 +1,264 @@
+import type { ApolloLink } from '@apollo/client';
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import type { UploadProgressEvent } from '../UploadHttpLink/uploadProgress.js';
+import { getFileDetails } from '../UploadHttpLink/validateFiles.js';
+
+/**
+ * Status of a file upload.
+ */
+export type UploadStatus =
+  'queued' | 'uploading' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A file upload of a GraphQL operation, as tracked by an
+ * {@linkcode UploadTracker}.
+ */
+export interface TrackedUpload {
+  /** Identifies the operation among those tracked. */
+  operationId: number;
+  /** Name of the GraphQL operation. */
+  operationName?: string;
+  /** Object paths of the file within the GraphQL operation. */
+  paths: Array<ObjectPath>;
+  /** File name, if any. */
+  name?: string;
+  /** MIME type, if any. */
+  type?: string;
+  /** Size in bytes. */
+  size: number;
+  /** Upload status. */
+  status: UploadStatus;
+  /** Estimated bytes of the file sent so far. */
+  loaded: number;
+  /** Bytes of the file to send. */
+  total: number;
+  /** Error the operation failed with, if `failed`. */
+  error?: unknown;
+}
+
+/**
+ * Selects tracked uploads by operation name and/or object path.
+ */
+export interface UploadFilter {
+  /** Name of the GraphQL operation. */
+  operationName?: string;
+  /** An object path of the file within the GraphQL operation. */
+  path?: ObjectPath;
+}
+
+/**
+ * Receives the tracked uploads whenever they change.
+ */
+export interface UploadTrackerListener {
+  (uploads: ReadonlyArray<TrackedUpload>): void;
+}
+
+/**
+ * Reports the uploads of a GraphQL operation to its tracker.
+ */
+export interface UploadTracking {
+  /** Updates the status of the operation’s uploads. */
+  update(status: UploadStatus, error?: unknown): void;
+  /** Reports upload progress of the operation’s multipart request. */
+  progress(event: UploadProgressEvent): void;
+  /**
+   * Reports an object path dropped from the operation. Uploads with all of
+   * their paths dropped are cancelled.
+   */
+  drop(path: ObjectPath): void;
+}
+
+/**
+ * Checks if a status is final.
+ */
+function isSettled(status: UploadStatus): boolean {
+  return status !== 'queued' && status !== 'uploading';
+}
+
+/**
+ * Checks if a tracked upload matches a filter.
+ */
+function matchesFilter(upload: TrackedUpload, filter: UploadFilter): boolean {
+  return (
+    (filter.operationName === undefined ||
+      upload.operationName === filter.operationName) &&
+    (filter.path === undefined || upload.paths.includes(filter.path))
+  );
+}
+
+/**
+ * Tracks the status and progress of every file upload in flight, for UI
+ * integration. Give it to upload links with the `tracker` option, then
+ * subscribe to it, or use the `useUploadStatus` React hook.
+ *
+ * Cancelling a file drops it from its operation until the operation’s
+ * request starts. Files of an operation are sent in one request, so after that
+ * cancelling a file cancels its operation.
+ * @example
+ * ```ts
+ * const tracker = new UploadTracker();
+ * const link = new UploadHttpLink({ uri: '/graphql', tracker });
+ *
+ * tracker.subscribe((uploads) => {
+ *   uploads.forEach(({ operationName, paths, status, loaded, total }) => {
+ *     console.log(operationName, paths[0], status, loaded / total);
+ *   });
+ * });
+ *
+ * tracker.cancel({ operationName: 'UploadAvatar' });
+ * ```
+ */
+export class UploadTracker {
+  private uploads: ReadonlyArray<TrackedUpload> = [];
+  private listeners = new Set<UploadTrackerListener>();
+  private cancels = new Map<number, (path?: ObjectPath) => void>();
+  private nextOperationId = 1;
+
+  /**
+   * Gets the tracked uploads. Without a filter, the same array is returned
+   * until the uploads change.
+   * @param filter Selects uploads by operation name and/or object path.
+   * @returns Tracked uploads.
+   */
+  getUploads(filter?: UploadFilter): ReadonlyArray<TrackedUpload> {
+    return filter
+      ? this.uploads.filter((upload) => matchesFilter(upload, filter))
+      : this.uploads;
+  }
+
+  /**
+   * Subscribes to changes of the tracked uploads.
+   * @param listener Receives the tracked uploads whenever they change.
+   * @returns Unsubscribes.
+   */
+  subscribe(listener: UploadTrackerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Cancels the in flight uploads matching the filter. With a `path`, the
+   * file at that path is dropped from its operation if the operation’s
+   * request hasn’t started, and its operation is cancelled otherwise.
+   * Without one, the operations are cancelled, aborting their requests.
+   * @param filter Selects uploads by operation name and/or object path.
+   * Defaults to every upload.
+   */
+  cancel(filter: UploadFilter = {}): void {
+    const operationIds = new Set(
+      this.getUploads(filter)
+        .filter(({ status }) => !isSettled(status))
+        .map(({ operationId }) => operationId)
+    );
+    operationIds.forEach((operationId) =>
+      this.cancels.get(operationId)?.(filter.path)
+    );
+  }
+
+  /**
+   * Removes settled uploads, such as those that succeeded, once the UI no
+   * longer shows them.
+   * @param filter Selects uploads by operation name and/or object path.
+   * Defaults to every upload.
+   */
+  clear(filter: UploadFilter = {}): void {
+    this.setUploads(
+      this.uploads.filter(
+        (upload) => !isSettled(upload.status) || !matchesFilter(upload, filter)
+      )
+    );
+  }
+
+  /**
+   * Starts tracking the uploads of a GraphQL operation. Upload links call it
+   * for each operation with files.
+   * @param operation GraphQL operation.
+   * @param files Extracted files and their object paths.
+   * @param cancel Cancels the operation, or drops the file at an object path.
+   * @returns Reports the operation’s uploads.
+   */
+  track(
+    operation: ApolloLink.Operation,
+    files: Map<unknown, Array<ObjectPath>>,
+    cancel: (path?: ObjectPath) => void
+  ): UploadTracking {
+    const operationId = this.nextOperationId++;
+    const { operationName } = operation;
+    const droppedPaths = new Set<ObjectPath>();
+
+    this.cancels.set(operationId, cancel);
+    this.setUploads([
+      ...this.uploads,
+      ...Array.from(files, ([file, paths]): TrackedUpload => {
+        const { name, type, size } = getFileDetails(file, paths);
+        return {
+          operationId,
+          ...(operationName ? { operationName } : {}),
+          paths,
+          ...(name === undefined ? {} : { name }),
+          ...(type === undefined ? {} : { type }),
+          size,
+          status: 'queued',
+          loaded: 0,
+          total: size,
+        };
+      }),
+    ]);
+
+    const updateUploads = (
+      update: (upload: TrackedUpload) => TrackedUpload
+    ) => {
+      let changed = false;
+      const uploads = this.uploads.map((upload) => {
+        if (upload.operationId !== operationId || isSettled(upload.status)) {
+          return upload;
+        }
+        changed = true;
+        return update(upload);
+      });
+      if (changed) this.setUploads(uploads);
+    };
+
+    return {
+      update: (status, error) => {
+        if (isSettled(status)) this.cancels.delete(operationId);
+        updateUploads((upload) => ({
+          ...upload,
+          status,
+          ...(status === 'succeeded' ? { loaded: upload.total } : {}),
+          ...(status === 'failed' ? { error } : {}),
+        }));
+      },
+      progress: ({ files: fileProgress }) => {
+        updateUploads((upload) => {
+          const progress = fileProgress.find(({ paths }) =>
+            paths.some((path) => upload.paths.includes(path))
+          );
+          return progress
+            ? {
+                ...upload,
+                status: 'uploading',
+                loaded: progress.loaded,
+                total: progress.total,
+              }
+            : upload;
+        });
+      },
+      drop: (path) => {
+        droppedPaths.add(path);
+        updateUploads((upload) =>
+          upload.paths.every((uploadPath) => droppedPaths.has(uploadPath))
+            ? { ...upload, status: 'cancelled' }
+            : upload
+        );
+      },
+    };
+  }
+
+  private setUploads(uploads: ReadonlyArray<TrackedUpload>): void {
+    this.uploads = uploads;
+    this.listeners.forEach((listener) => listener(uploads));
+  }
+}
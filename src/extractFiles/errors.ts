@@ -0,0 +1,58 @@
+import type { ObjectPath } from './extractFiles.js';
+
+/**
+ * Why a multipart request is malformed:
+ *
+ * - `INVALID_REQUEST`: The request isn’t `multipart/form-data`.
+ * - `INVALID_OPERATIONS`: The `operations` field is missing or isn’t a JSON
+ *   object or array.
+ * - `INVALID_MAP`: The `map` field is missing or isn’t a JSON object of field
+ *   names and arrays of object paths.
+ * - `MISSING_FILE`: A file field of the `map` is missing or isn’t a file.
+ * - `INVALID_PATH`: An object path is empty or doesn’t exist within the
+ *   operations.
+ */
+export type MultipartRequestErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_OPERATIONS'
+  | 'INVALID_MAP'
+  | 'MISSING_FILE'
+  | 'INVALID_PATH';
+
+/**
+ * Fails parsing a
+ * [GraphQL multipart request](https://github.com/jaydenseric/graphql-multipart-request-spec)
+ * that doesn’t follow the spec, or inserting files at object paths that don’t
+ * exist.
+ */
+export class MultipartRequestError extends Error {
+  /**
+   * Checks if an error is a {@link MultipartRequestError}.
+   * @param error Error to check.
+   * @returns Is the error a {@link MultipartRequestError}.
+   */
+  static is(error: unknown): error is MultipartRequestError {
+    return error instanceof MultipartRequestError;
+  }
+
+  /** Why the request is malformed. */
+  readonly code: MultipartRequestErrorCode;
+
+  /** Offending file field name, if any. */
+  readonly fieldName?: string;
+
+  /** Offending object path, if any. */
+  readonly path?: ObjectPath;
+
+  constructor(
+    code: MultipartRequestErrorCode,
+    message: string,
+    details: { fieldName?: string; path?: ObjectPath } = {}
+  ) {
+    super(message);
+    this.name = 'MultipartRequestError';
+    this.code = code;
+    if (details.fieldName !== undefined) this.fieldName = details.fieldName;
+    if (details.path !== undefined) this.path = details.path;
+  }
+}
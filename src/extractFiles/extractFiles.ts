@@ -1,5 +1,6 @@
 import isPlainObject from 'is-plain-obj';
-import type { ExtractableFile } from './isExtractableFile.js';
+import type { UploadableFile } from './isExtractableFile.js';
+import type { TraversalHandler } from './traversalHandlers.js';
 
 /**
  * String notation for the path to a node in an object tree.
@@ -44,11 +45,14 @@ export interface Extraction<Extractable = unknown> {
  * [`FileList`](https://developer.mozilla.org/en-US/docs/Web/API/Filelist)
  * instances are treated as
  * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) instance
- * arrays.
+ * arrays. Values matching a {@link TraversalHandler traversal handler} are
+ * traversed in place of the replacement of the first matching handler.
  * @template Extractable Extractable file type.
  * @param value Value to extract files from. Typically an object tree.
  * @param isExtractable Matches extractable files. Typically {@linkcode isExtractableFile}.
  * @param path Prefix for object paths for extracted files. Defaults to `""`.
+ * @param handlers Traversal handlers for values that aren’t arrays or plain
+ * objects, such as {@linkcode builtInTraversalHandlers}. Defaults to none.
  * @returns Extraction result.
  * @example
  * Extracting files from an object.
@@ -87,10 +91,11 @@ export interface Extraction<Extractable = unknown> {
  * | `file1` | `["prefix.a", "prefix.b.0"]` |
  * | `file2` | `["prefix.b.1"]`             |
  */
-export function extractFiles<Extractable extends ExtractableFile>(
+export function extractFiles<Extractable extends UploadableFile>(
   value: unknown,
   isExtractable: (value: unknown) => value is Extractable,
-  path: ObjectPath = ''
+  path: ObjectPath = '',
+  handlers: ReadonlyArray<TraversalHandler> = []
 ): Extraction<Extractable> {
   if (!arguments.length) {
     throw new TypeError('Argument 1 `value` is required.');
@@ -104,6 +109,10 @@ export function extractFiles<Extractable extends ExtractableFile>(
     throw new TypeError('Argument 3 `path` must be a string.');
   }
 
+  if (!Array.isArray(handlers)) {
+    throw new TypeError('Argument 4 `handlers` must be an array.');
+  }
+
   /**
    * Map of values recursed within the input value and their clones, for reusing
    * clones of values that are referenced multiple times within the input value.
@@ -115,6 +124,12 @@ export function extractFiles<Extractable extends ExtractableFile>(
    */
   const files = new Map<Extractable, Array<ObjectPath>>();
 
+  /**
+   * Map of values replaced by a traversal handler and their replacements, for
+   * reusing the clones of values that are referenced multiple times.
+   */
+  const replacements = new Map<unknown, unknown>();
+
   /**
    * Recursively clones the value, extracting files.
    * @param value Value to extract files from.
@@ -139,6 +154,20 @@ export function extractFiles<Extractable extends ExtractableFile>(
       return null;
     }
 
+    if (typeof value === 'object' && value !== null) {
+      const handler = handlers.find((handler) => handler.matches(value));
+
+      if (handler) {
+        if (!replacements.has(value)) {
+          replacements.set(value, handler.toTraversable(value));
+        }
+
+        const replacement = replacements.get(value);
+
+        if (replacement !== value) return recurse(replacement, path, recursed);
+      }
+    }
+
     const valueIsList =
       Array.isArray(value) ||
       (typeof FileList !== 'undefined' && value instanceof FileList);
@@ -1,2 +1,6 @@
+export * from './errors.js';
 export * from './extractFiles.js';
+export * from './insertFiles.js';
 export * from './isExtractableFile.js';
+export * from './parseMultipartRequest.js';
+export * from './traversalHandlers.js';
@@ -0,0 +1,122 @@
+import { MultipartRequestError } from './errors.js';
+import type { ObjectPath } from './extractFiles.js';
+
+/**
+ * Checks if a value can contain other values at object paths.
+ */
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks if an object path key exists on a container, ignoring inherited
+ * properties so paths can’t reach object prototypes.
+ */
+function hasKey(container: Record<string, unknown>, key: string): boolean {
+  return (
+    key !== '__proto__' && Object.prototype.hasOwnProperty.call(container, key)
+  );
+}
+
+/**
+ * Resolves the keys of an object path within a value tree.
+ */
+function resolveKeys(
+  value: unknown,
+  keys: Array<string>,
+  path: ObjectPath
+): unknown {
+  let resolved = value;
+  for (const key of keys) {
+    if (!isContainer(resolved) || !hasKey(resolved, key)) {
+      throw new MultipartRequestError(
+        'INVALID_PATH',
+        `Object path \`${path}\` doesn’t exist.`,
+        { path }
+      );
+    }
+    resolved = resolved[key];
+  }
+  return resolved;
+}
+
+/**
+ * Resolves an {@link ObjectPath object path} within a value tree, such as an
+ * extraction clone or the `operations` of a multipart request.
+ * @param value Value tree.
+ * @param path Object path. An empty path is the value itself.
+ * @returns Value at the object path.
+ * @throws {MultipartRequestError} With code `INVALID_PATH` if the path doesn’t
+ * exist.
+ * @example
+ * ```js
+ * import { resolveObjectPath } from "@hyperse/apollo-upload-client/extractFiles";
+ *
+ * resolveObjectPath({ a: [{ b: 1 }] }, "a.0.b"); // 1
+ * ```
+ */
+export function resolveObjectPath(value: unknown, path: ObjectPath): unknown {
+  return path ? resolveKeys(value, path.split('.'), path) : value;
+}
+
+/**
+ * Inserts files at their {@link ObjectPath object paths} within a value tree,
+ * reversing `extractFiles`. The value tree, such as an extraction
+ * clone or the `operations` of a multipart request, is mutated, and each path
+ * must exist within it, typically with a `null` placeholder. Every path is
+ * resolved before any file is inserted, so the value tree is left as is if a
+ * path doesn’t exist.
+ * @template Extractable Extractable file type.
+ * @param clone Value tree to insert files into.
+ * @param filesByPath Files by object path.
+ * @returns The value tree with the files inserted, which is the file itself
+ * for an empty path.
+ * @throws {MultipartRequestError} With code `INVALID_PATH` if a path doesn’t
+ * exist.
+ * @example
+ * ```js
+ * import { extractFiles, insertFiles, isExtractableFile } from "@hyperse/apollo-upload-client/extractFiles";
+ *
+ * const { clone, files } = extractFiles(value, isExtractableFile);
+ * const filesByPath = new Map();
+ * files.forEach((paths, file) => {
+ *   paths.forEach((path) => filesByPath.set(path, file));
+ * });
+ *
+ * insertFiles(clone, filesByPath); // Deeply equals `value`.
+ * ```
+ */
+export function insertFiles<Extractable>(
+  clone: unknown,
+  filesByPath:
+    | ReadonlyMap<ObjectPath, Extractable>
+    | Readonly<Record<ObjectPath, Extractable>>
+): unknown {
+  const entries =
+    filesByPath instanceof Map
+      ? Array.from(filesByPath)
+      : Object.entries(filesByPath);
+
+  let tree = clone;
+  const insertions = entries.flatMap(([path, file]) => {
+    if (!path) {
+      tree = file;
+      return [];
+    }
+
+    const keys = path.split('.');
+    const lastKey = keys.pop()!;
+    const parent = resolveKeys(clone, keys, path) as Record<string, unknown>;
+
+    // Throws if the last key doesn’t exist.
+    resolveKeys(parent, [lastKey], path);
+
+    return [{ parent, lastKey, file }];
+  });
+
+  insertions.forEach(({ parent, lastKey, file }) => {
+    parent[lastKey] = file;
+  });
+
+  return tree;
+}
@@ -14,3 +14,27 @@ export function isExtractableFile(value: unknown): value is ExtractableFile {
     (typeof Blob !== 'undefined' && value instanceof Blob)
   );
 }
+
+/**
+ * A file of a platform that uploads files without a
+ * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) or
+ * [`Blob`](https://developer.mozilla.org/en-US/docs/Web/API/Blob), such as a
+ * Node.js stream or file descriptor, or a React Native file. It’s matched by a
+ * custom `isExtractableFile`, and appended by a custom `formDataAppendFile`.
+ */
+export interface PlatformFile {
+  /** File name. */
+  readonly name?: string;
+  /** MIME type. */
+  readonly type?: string;
+  /** Path of a file on disk. */
+  readonly path?: string | Uint8Array;
+  /** URI of a file on the device. */
+  readonly uri?: string;
+}
+
+/**
+ * A file upload links can send: an {@link ExtractableFile extractable file},
+ * or a {@link PlatformFile platform file}.
+ */
+export type UploadableFile = ExtractableFile | PlatformFile;
@@ -0,0 +1,149 @@
+import isPlainObject from 'is-plain-obj';
+import { MultipartRequestError } from './errors.js';
+import type { ObjectPath } from './extractFiles.js';
+import { insertFiles } from './insertFiles.js';
+
+/**
+ * A parsed GraphQL multipart request.
+ */
+export interface ParsedMultipartRequest {
+  /**
+   * GraphQL operation, or array of operations for a batch, with the files
+   * inserted at their object paths.
+   */
+  operations: Record<string, unknown> | Array<unknown>;
+  /** Files by their field name in the `map`. */
+  files: Map<string, File>;
+}
+
+/**
+ * Parses a JSON field of a multipart request.
+ */
+function parseJsonField(
+  form: FormData,
+  fieldName: 'operations' | 'map',
+  code: 'INVALID_OPERATIONS' | 'INVALID_MAP'
+): unknown {
+  const field = form.get(fieldName);
+
+  if (typeof field !== 'string') {
+    throw new MultipartRequestError(
+      code,
+      `Missing multipart field \`${fieldName}\`.`
+    );
+  }
+
+  try {
+    return JSON.parse(field);
+  } catch {
+    throw new MultipartRequestError(
+      code,
+      `Invalid JSON in the \`${fieldName}\` multipart field.`
+    );
+  }
+}
+
+/**
+ * Parses a
+ * [GraphQL multipart request](https://github.com/jaydenseric/graphql-multipart-request-spec),
+ * such as in a Node.js GraphQL server or gateway, validating its `operations`
+ * and `map` fields and inserting each file of the `map` at its object paths
+ * within the operations.
+ * @param request Standard [`Request`](https://developer.mozilla.org/en-US/docs/Web/API/Request).
+ * @returns Parsed request.
+ * @throws {MultipartRequestError} If the request doesn’t follow the spec.
+ * @example
+ * ```js
+ * import { parseMultipartRequest } from "@hyperse/apollo-upload-client/extractFiles";
+ *
+ * const { operations } = await parseMultipartRequest(request);
+ * const file = operations.variables.file; // `File` instance.
+ * ```
+ */
+export async function parseMultipartRequest(
+  request: Request
+): Promise<ParsedMultipartRequest> {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (!/^multipart\/form-data\s*(;|$)/i.test(contentType)) {
+    throw new MultipartRequestError(
+      'INVALID_REQUEST',
+      'The request content type must be `multipart/form-data`.'
+    );
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    throw new MultipartRequestError(
+      'INVALID_REQUEST',
+      'The request body is malformed multipart form data.'
+    );
+  }
+
+  const operations = parseJsonField(form, 'operations', 'INVALID_OPERATIONS');
+
+  if (!isPlainObject(operations) && !Array.isArray(operations)) {
+    throw new MultipartRequestError(
+      'INVALID_OPERATIONS',
+      'The `operations` multipart field must be a JSON object or array.'
+    );
+  }
+
+  const map = parseJsonField(form, 'map', 'INVALID_MAP');
+
+  if (!isPlainObject(map)) {
+    throw new MultipartRequestError(
+      'INVALID_MAP',
+      'The `map` multipart field must be a JSON object.'
+    );
+  }
+
+  const files = new Map<string, File>();
+  const filesByPath = new Map<ObjectPath, File>();
+
+  for (const [fieldName, paths] of Object.entries(map)) {
+    if (
+      !Array.isArray(paths) ||
+      !paths.length ||
+      !paths.every((path) => typeof path === 'string')
+    ) {
+      throw new MultipartRequestError(
+        'INVALID_MAP',
+        `The \`map\` entry for field \`${fieldName}\` must be an array of object paths.`,
+        { fieldName }
+      );
+    }
+
+    // An empty path would replace the operations with the file.
+    if ((paths as Array<ObjectPath>).includes('')) {
+      throw new MultipartRequestError(
+        'INVALID_PATH',
+        `The \`map\` entry for field \`${fieldName}\` has an empty object path.`,
+        { fieldName, path: '' }
+      );
+    }
+
+    const file = form.get(fieldName);
+
+    if (typeof file === 'string' || file === null) {
+      throw new MultipartRequestError(
+        'MISSING_FILE',
+        `Missing file for multipart field \`${fieldName}\`.`,
+        { fieldName }
+      );
+    }
+
+    files.set(fieldName, file);
+    (paths as Array<ObjectPath>).forEach((path) => {
+      filesByPath.set(path, file);
+    });
+  }
+
+  return {
+    operations: insertFiles(operations, filesByPath) as
+      Record<string, unknown> | Array<unknown>,
+    files,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Lets `extractFiles` traverse values other than arrays,
+ * [`FileList`](https://developer.mozilla.org/en-US/docs/Web/API/Filelist)
+ * instances and plain objects, such as
+ * [`Map`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Map)
+ * or class instances, by replacing them with a value to extract files from
+ * and clone in their place. The upload links send the replacement in place of
+ * the value, whether or not the operation has files.
+ * @template Container Type of the values handled.
+ */
+export interface TraversalHandler<Container = any> {
+  /**
+   * Checks if the handler applies to a value.
+   * @param value Value to check.
+   * @returns Does the handler apply.
+   */
+  matches(value: unknown): value is Container;
+  /**
+   * Gets the value to traverse in place of the container. Called once per
+   * container, even if it’s referenced multiple times.
+   * @param container Container.
+   * @returns Replacement value, typically an array or a plain object.
+   */
+  toTraversable(container: Container): unknown;
+}
+
+/**
+ * Traverses
+ * [`Map`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Map)
+ * instances as plain objects of their entries, with the keys converted to
+ * strings.
+ */
+export const mapTraversal: TraversalHandler<Map<unknown, unknown>> = {
+  matches: (value): value is Map<unknown, unknown> => value instanceof Map,
+  toTraversable: (map) =>
+    Object.fromEntries(Array.from(map, ([key, item]) => [String(key), item])),
+};
+
+/**
+ * Traverses
+ * [`Set`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Set)
+ * instances as arrays of their values.
+ */
+export const setTraversal: TraversalHandler<Set<unknown>> = {
+  matches: (value): value is Set<unknown> => value instanceof Set,
+  toTraversable: (set) => Array.from(set),
+};
+
+/**
+ * Traverses objects with a `toJSON` method, such as class instances, as the
+ * value the method returns, the way
+ * [`JSON.stringify`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/JSON/stringify#tojson_behavior)
+ * serializes them.
+ */
+export const toJSONTraversal: TraversalHandler<{
+  toJSON(key: string): unknown;
+}> = {
+  matches: (value): value is { toJSON(key: string): unknown } =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { toJSON?: unknown }).toJSON === 'function',
+  toTraversable: (value) => value.toJSON(''),
+};
+
+/**
+ * Built-in traversal handlers, for
+ * [`Map`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Map)
+ * and
+ * [`Set`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Set)
+ * instances and objects with a `toJSON` method. `extractFiles` and the upload
+ * links use no handlers unless given some, so these are opt-in.
+ */
+export const builtInTraversalHandlers: ReadonlyArray<TraversalHandler> = [
+  mapTraversal,
+  setTraversal,
+  toJSONTraversal,
+];
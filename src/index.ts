@@ -1,2 +1,5 @@
 export * from './extractFiles/index.js';
+export * from './OfflineUploadQueue/index.js';
+export * from './UploadBatchHttpLink/index.js';
 export * from './UploadHttpLink/index.js';
+export * from './UploadTracker/index.js';
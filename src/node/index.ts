@@ -0,0 +1,2 @@
+export * from './nodeFile.js';
+export * from './nodeFormDataAppendFile.js';
@@ -0,0 +1,149 @@
+import { ReadStream, statSync } from 'node:fs';
+import { basename } from 'node:path';
+import type { Readable } from 'node:stream';
+import {
+  type ExtractableFile,
+  isExtractableFile,
+} from '../extractFiles/isExtractableFile.js';
+
+/**
+ * File metadata for a Node.js file descriptor.
+ */
+export interface NodeFileOptions {
+  /** File name. */
+  name?: string;
+  /** MIME type, e.g. `image/png`. */
+  type?: string;
+  /** Size in bytes, if known. */
+  size?: number;
+}
+
+/**
+ * A file read from disk when uploaded, created with {@linkcode fileFromPath}.
+ */
+export interface FilePathDescriptor {
+  /** Path of the file on disk. */
+  readonly path: string;
+  /** File name. Defaults to the base name of the path. */
+  readonly name: string;
+  /** MIME type. */
+  readonly type: string;
+  /** Size in bytes. */
+  readonly size: number;
+}
+
+/**
+ * A Node.js [`Readable`](https://nodejs.org/api/stream.html#class-streamreadable)
+ * with file metadata, created with {@linkcode fileFromReadable}.
+ */
+export interface ReadableFileDescriptor {
+  /** Stream of the file content. It can only be uploaded once. */
+  readonly stream: Readable;
+  /** File name. */
+  readonly name?: string;
+  /** MIME type. */
+  readonly type: string;
+  /** Size in bytes, if known. */
+  readonly size?: number;
+}
+
+/**
+ * An extractable file in Node.js: a
+ * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) or
+ * [`Blob`](https://developer.mozilla.org/en-US/docs/Web/API/Blob), an
+ * [`fs.ReadStream`](https://nodejs.org/api/fs.html#class-fsreadstream), or a
+ * file descriptor.
+ */
+export type NodeExtractableFile =
+  ExtractableFile | ReadStream | FilePathDescriptor | ReadableFileDescriptor;
+
+/**
+ * Brands file descriptors, telling them apart from plain objects in the
+ * GraphQL variables.
+ */
+const nodeFileDescriptor = Symbol.for(
+  '@hyperse/apollo-upload-client/nodeFileDescriptor'
+);
+
+/**
+ * Creates a descriptor for a file on disk, which is streamed from disk when
+ * uploaded instead of being loaded into memory.
+ * @param path Path of the file.
+ * @param options File metadata.
+ * @returns File descriptor.
+ * @example
+ * ```ts
+ * await client.mutate({
+ *   mutation: UPLOAD_FILE,
+ *   variables: { file: fileFromPath('./report.pdf', { type: 'application/pdf' }) },
+ * });
+ * ```
+ */
+export function fileFromPath(
+  path: string,
+  options: NodeFileOptions = {}
+): FilePathDescriptor {
+  const {
+    name = basename(path),
+    type = '',
+    size = statSync(path).size,
+  } = options;
+
+  return Object.freeze({
+    [nodeFileDescriptor]: true,
+    path,
+    name,
+    type,
+    size,
+  });
+}
+
+/**
+ * Creates a descriptor for a Node.js `Readable` with file metadata, which is
+ * streamed into the multipart request body when uploaded.
+ * @param stream Stream of the file content.
+ * @param options File metadata.
+ * @returns File descriptor.
+ */
+export function fileFromReadable(
+  stream: Readable,
+  options: NodeFileOptions = {}
+): ReadableFileDescriptor {
+  const { name, type = '', size } = options;
+
+  return Object.freeze({
+    [nodeFileDescriptor]: true,
+    stream,
+    ...(name === undefined ? {} : { name }),
+    type,
+    ...(size === undefined ? {} : { size }),
+  });
+}
+
+/**
+ * Checks if a value is a file descriptor created with {@linkcode fileFromPath}
+ * or {@linkcode fileFromReadable}.
+ */
+function isNodeFileDescriptor(
+  value: unknown
+): value is FilePathDescriptor | ReadableFileDescriptor {
+  return (
+    typeof value === 'object' && value !== null && nodeFileDescriptor in value
+  );
+}
+
+/**
+ * Checks if a value is a {@link NodeExtractableFile Node.js extractable file},
+ * for the `isExtractableFile` option in Node.js.
+ * @param value Value to check.
+ * @returns Is the value a {@link NodeExtractableFile Node.js extractable file}.
+ */
+export function isNodeExtractableFile(
+  value: unknown
+): value is NodeExtractableFile {
+  return (
+    isExtractableFile(value) ||
+    value instanceof ReadStream ||
+    isNodeFileDescriptor(value)
+  );
+}
@@ -0,0 +1,81 @@
+import { createReadStream, ReadStream } from 'node:fs';
+import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import { isExtractableFile } from '../extractFiles/isExtractableFile.js';
+import { formDataAppendFile } from '../UploadHttpLink/formDataAppendFile.js';
+import type { NodeExtractableFile } from './nodeFile.js';
+
+/**
+ * Creates a `Blob` like object streaming its content, which the Node.js
+ * `FormData` accepts in place of a `Blob` and reads only once the request body
+ * is sent.
+ */
+function createStreamingBlob(
+  name: string,
+  type: string,
+  size: number | undefined,
+  getStream: () => Readable
+): Blob {
+  return {
+    [Symbol.toStringTag]: 'File',
+    name,
+    type,
+    size,
+    stream: () => Readable.toWeb(getStream()),
+  } as unknown as Blob;
+}
+
+/**
+ * Throws if a stream of a file was already read, such as by an earlier attempt
+ * of a retried request or before a persisted query is sent again with the full
+ * query text, as it can’t be read again for another request body.
+ */
+function assertStreamUnread(stream: Readable, name: string): void {
+  if (stream.readableDidRead || stream.destroyed) {
+    throw new Error(
+      `The stream of file \`${name}\` was already read, so it can’t be uploaded again. Use \`fileFromPath\` or a \`Blob\` for files that may be sent more than once.`
+    );
+  }
+}
+
+/**
+ * An implementation for the `formDataAppendFile` option in Node.js, that
+ * appends {@link NodeExtractableFile Node.js extractable files} to the
+ * [Node.js `FormData`](https://nodejs.org/api/globals.html#class-formdata) so
+ * streams and files on disk are streamed into the request body instead of
+ * being loaded into memory. Streams can only be uploaded once, so appending a
+ * stream that was already read throws.
+ * @param formData Form data to append the specified file to.
+ * @param fieldName Field name for the file.
+ * @param file File to append.
+ */
+export function nodeFormDataAppendFile(
+  formData: FormData,
+  fieldName: string,
+  file: NodeExtractableFile
+): void {
+  if (isExtractableFile(file)) {
+    formDataAppendFile(formData, fieldName, file);
+    return;
+  }
+
+  let blob: Blob;
+  let name: string;
+
+  if (file instanceof ReadStream) {
+    name = basename(String(file.path));
+    assertStreamUnread(file, name);
+    blob = createStreamingBlob(name, '', undefined, () => file);
+  } else if ('path' in file) {
+    name = file.name;
+    blob = createStreamingBlob(name, file.type, file.size, () =>
+      createReadStream(file.path)
+    );
+  } else {
+    name = file.name ?? 'blob';
+    assertStreamUnread(file.stream, name);
+    blob = createStreamingBlob(name, file.type, file.size, () => file.stream);
+  }
+
+  formData.append(fieldName, blob, name);
+}
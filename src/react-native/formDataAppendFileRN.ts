@@ -0,0 +1,26 @@
+import { isExtractableFile } from '../extractFiles/isExtractableFile.js';
+import { formDataAppendFile } from '../UploadHttpLink/formDataAppendFile.js';
+import type { ExtractableFileRN } from './reactNativeFile.js';
+
+/**
+ * An implementation for the `formDataAppendFile` option in React Native, that
+ * appends {@link ExtractableFileRN React Native extractable files} to the
+ * React Native `FormData`, which reads a `{ uri, name, type }` value from its
+ * URI when the request body is sent.
+ * @param formData Form data to append the specified file to.
+ * @param fieldName Field name for the file.
+ * @param file File to append.
+ */
+export function formDataAppendFileRN(
+  formData: FormData,
+  fieldName: string,
+  file: ExtractableFileRN
+): void {
+  if (isExtractableFile(file)) {
+    formDataAppendFile(formData, fieldName, file);
+    return;
+  }
+
+  // The React Native `FormData` accepts the descriptor in place of a `Blob`.
+  formData.append(fieldName, file as unknown as Blob);
+}
@@ -0,0 +1,2 @@
+export * from './formDataAppendFileRN.js';
+export * from './reactNativeFile.js';
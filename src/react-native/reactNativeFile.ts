@@ -0,0 +1,54 @@
+import {
+  type ExtractableFile,
+  isExtractableFile,
+} from '../extractFiles/isExtractableFile.js';
+
+/**
+ * A file in React Native, as picked by document and image pickers. Its content
+ * is read from the URI by the React Native `FormData` when uploaded.
+ */
+export interface ReactNativeFile {
+  /** URI of the file, e.g. `file:///path/to/photo.jpg`. */
+  readonly uri: string;
+  /** File name. */
+  readonly name: string;
+  /** MIME type, e.g. `image/jpeg`. */
+  readonly type: string;
+}
+
+/**
+ * An extractable file in React Native: a
+ * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) or
+ * [`Blob`](https://developer.mozilla.org/en-US/docs/Web/API/Blob), or a
+ * {@link ReactNativeFile React Native file}.
+ */
+export type ExtractableFileRN = ExtractableFile | ReactNativeFile;
+
+/**
+ * Checks if a value is a {@link ReactNativeFile React Native file}, an object
+ * with string `uri`, `name` and `type` properties.
+ * @param value Value to check.
+ * @returns Is the value a {@link ReactNativeFile React Native file}.
+ */
+export function isReactNativeFile(value: unknown): value is ReactNativeFile {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { uri, name, type } = value as Record<string, unknown>;
+  return (
+    typeof uri === 'string' &&
+    typeof name === 'string' &&
+    typeof type === 'string'
+  );
+}
+
+/**
+ * Checks if a value is a {@link ExtractableFileRN React Native extractable file},
+ * for the `isExtractableFile` option in React Native.
+ * @param value Value to check.
+ * @returns Is the value a {@link ExtractableFileRN React Native extractable file}.
+ */
+export function isExtractableFileRN(
+  value: unknown
+): value is ExtractableFileRN {
+  return isExtractableFile(value) || isReactNativeFile(value);
+}
@@ -0,0 +1,79 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type {
+  TrackedUpload,
+  UploadFilter,
+  UploadTracker,
+} from '../UploadTracker/UploadTracker.js';
+
+/**
+ * Status of the uploads a component tracks.
+ */
+export interface UploadStatusResult {
+  /** Tracked uploads matching the filter. */
+  uploads: ReadonlyArray<TrackedUpload>;
+  /** Estimated bytes of the uploads sent so far. */
+  loaded: number;
+  /** Bytes of the uploads to send. */
+  total: number;
+  /** Are any of the uploads queued or uploading. */
+  inFlight: boolean;
+  /** Cancels the in flight operations of the uploads. */
+  cancel(): void;
+  /** Removes the settled uploads. */
+  clear(): void;
+}
+
+/**
+ * A React hook that re-renders with the status and progress of the uploads an
+ * {@linkcode UploadTracker} tracks.
+ * @param tracker Upload tracker given to the upload link.
+ * @param filter Selects uploads by operation name and/or object path.
+ * @returns Upload status.
+ * @example
+ * ```tsx
+ * function AvatarUploadStatus() {
+ *   const { uploads, loaded, total, inFlight, cancel } = useUploadStatus(
+ *     tracker,
+ *     { operationName: 'UploadAvatar' }
+ *   );
+ *
+ *   if (!inFlight) return null;
+ *
+ *   return (
+ *     <p>
+ *       Uploading {uploads.length} files: {Math.round((loaded / total) * 100)}%
+ *       <button onClick={cancel}>Cancel</button>
+ *     </p>
+ *   );
+ * }
+ * ```
+ */
+export function useUploadStatus(
+  tracker: UploadTracker,
+  filter: UploadFilter = {}
+): UploadStatusResult {
+  const { operationName, path } = filter;
+
+  const allUploads = useSyncExternalStore(
+    useCallback((onChange) => tracker.subscribe(onChange), [tracker]),
+    () => tracker.getUploads(),
+    () => tracker.getUploads()
+  );
+
+  return useMemo(() => {
+    const uploadFilter = { operationName, path };
+    // Filtered again whenever the tracked uploads change.
+    const uploads = tracker.getUploads(uploadFilter);
+
+    return {
+      uploads,
+      loaded: uploads.reduce((loaded, upload) => loaded + upload.loaded, 0),
+      total: uploads.reduce((total, upload) => total + upload.total, 0),
+      inFlight: uploads.some(
+        ({ status }) => status === 'queued' || status === 'uploading'
+      ),
+      cancel: () => tracker.cancel(uploadFilter),
+      clear: () => tracker.clear(uploadFilter),
+    };
+  }, [tracker, allUploads, operationName, path]);
+}
@@ -0,0 +1,60 @@
+import type {
+  ExtractableFile,
+  UploadableFile,
+} from '../extractFiles/isExtractableFile.js';
+import {
+  UploadHttpLink,
+  type UploadHttpLinkOptions,
+} from '../UploadHttpLink/UploadHttpLink.js';
+import {
+  type CapturedUploadRequest,
+  createMockUploadFetch,
+  type MockUploadFetch,
+  type MockUploadFetchOptions,
+} from './mockUploadFetch.js';
+
+/**
+ * Options for creating a {@linkcode MockUploadLink}: the upload link options
+ * besides `fetch`, and the scripted responses.
+ * @template T Extractable file type.
+ */
+export interface MockUploadLinkOptions<
+  T extends UploadableFile = ExtractableFile,
+>
+  extends Omit<UploadHttpLinkOptions<T>, 'fetch'>, MockUploadFetchOptions {}
+
+/**
+ * An upload link for tests, sending requests to a
+ * {@link MockUploadFetch mock upload fetch} that captures them and responds
+ * with scripted responses.
+ * @template T Extractable file type.
+ * @example
+ * ```ts
+ * const link = new MockUploadLink({
+ *   responses: [{ result: { data: { uploadAvatar: true } } }],
+ * });
+ * const client = new ApolloClient({ cache: new InMemoryCache(), link });
+ *
+ * await client.mutate({ mutation: UPLOAD_AVATAR, variables: { file } });
+ *
+ * expect(link.requests[0].files).toMatchObject([{ name: 'avatar.png' }]);
+ * ```
+ */
+export class MockUploadLink<
+  T extends UploadableFile = ExtractableFile,
+> extends UploadHttpLink<T> {
+  /** Mock upload fetch the link sends requests to. */
+  readonly fetch: MockUploadFetch;
+
+  constructor(options: MockUploadLinkOptions<T> = {}) {
+    const { responses, defaultResponse, ...linkOptions } = options;
+    const fetch = createMockUploadFetch({ responses, defaultResponse });
+    super({ ...linkOptions, fetch });
+    this.fetch = fetch;
+  }
+
+  /** Requests captured so far, in order. */
+  get requests(): Array<CapturedUploadRequest> {
+    return this.fetch.requests;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './mockUploadFetch.js';
+export * from './MockUploadLink.js';
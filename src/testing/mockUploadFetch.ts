@@ -0,0 +1,258 @@
+import type { ObjectPath } from '../extractFiles/extractFiles.js';
+import { parseMultipartRequest } from '../extractFiles/parseMultipartRequest.js';
+import { throwIfAborted, wait } from '../UploadHttpLink/utils.js';
+import type { UploadRequestInit } from '../UploadHttpLink/xhrFetch.js';
+
+/**
+ * A file of a captured multipart request.
+ */
+export interface CapturedUploadFile {
+  /** Field name of the file in the multipart request. */
+  fieldName: string;
+  /** File name. */
+  name: string;
+  /** MIME type. */
+  type: string;
+  /** Byte size. */
+  size: number;
+  /** Object paths of the file within the operations. */
+  paths: Array<ObjectPath>;
+  /** Decoded file. */
+  file: File;
+}
+
+/**
+ * A request captured by a {@link MockUploadFetch mock upload fetch}, decoded
+ * from its multipart or JSON body.
+ */
+export interface CapturedUploadRequest {
+  /** Request URI. */
+  uri: string;
+  /** Request method. */
+  method: string;
+  /** Request headers, with lowercase names. */
+  headers: Record<string, string>;
+  /** Whether it’s a multipart request. */
+  multipart: boolean;
+  /**
+   * GraphQL operation, or array of operations for a batch, with the files
+   * put back at their object paths.
+   */
+  operations: Record<string, unknown> | Array<unknown>;
+  /** Name of the GraphQL operation, unless it’s a batch. */
+  operationName?: string;
+  /** Variables of the GraphQL operation, with the files at their paths. */
+  variables: Record<string, unknown>;
+  /** Files of the multipart request. */
+  files: Array<CapturedUploadFile>;
+}
+
+/**
+ * A scripted response of a {@link MockUploadFetch mock upload fetch}.
+ */
+export interface MockUploadResponse {
+  /** GraphQL result of the response body. Defaults to `{ data: {} }`. */
+  result?: unknown;
+  /** Response status. Defaults to `200`. */
+  status?: number;
+  /** Response headers. The content type defaults to `application/json`. */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait before responding. */
+  delay?: number;
+  /**
+   * Number of upload progress steps reported to `onUploadProgress` while
+   * waiting for the delay, as a transport observing the body being sent
+   * would. Defaults to `0`.
+   */
+  progressSteps?: number;
+  /**
+   * Error to reject with instead of responding, simulating a network
+   * failure, e.g. `new TypeError('Failed to fetch')`.
+   */
+  error?: unknown;
+}
+
+/**
+ * A scripted response, or a function getting it for a captured request.
+ */
+export type MockUploadResponder =
+  | MockUploadResponse
+  | ((
+      request: CapturedUploadRequest
+    ) => MockUploadResponse | Promise<MockUploadResponse>);
+
+/**
+ * Options for creating a {@link MockUploadFetch mock upload fetch}.
+ */
+export interface MockUploadFetchOptions {
+  /** Responses to respond with in order, one per request. */
+  responses?: Array<MockUploadResponder>;
+  /** Response once the scripted `responses` are used up. */
+  defaultResponse?: MockUploadResponder;
+}
+
+/**
+ * A `fetch` stub for the upload link `fetch` option, capturing each request
+ * and responding with scripted responses.
+ */
+export interface MockUploadFetch {
+  (input: RequestInfo | URL, options?: UploadRequestInit): Promise<Response>;
+  /** Requests captured so far, in order. */
+  readonly requests: Array<CapturedUploadRequest>;
+  /**
+   * Schedules more responses, after the remaining scripted ones.
+   * @param responses Responses to respond with.
+   */
+  respondWith(...responses: Array<MockUploadResponder>): void;
+  /** Forgets the captured requests and the remaining scripted responses. */
+  reset(): void;
+}
+
+/**
+ * Decodes a request to a {@link CapturedUploadRequest captured request}.
+ */
+async function captureRequest(
+  uri: string,
+  options: UploadRequestInit
+): Promise<CapturedUploadRequest> {
+  const headers: Record<string, string> = {};
+  new Headers(options.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  const { body, method = 'GET' } = options;
+  const multipart =
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    /^multipart\/form-data/i.test(headers['content-type'] ?? '');
+
+  let operations: CapturedUploadRequest['operations'] = {};
+  const files: Array<CapturedUploadFile> = [];
+
+  if (multipart) {
+    const request = new Request(new URL(uri, 'http://localhost'), {
+      method,
+      headers: options.headers,
+      body,
+      ...(options.duplex ? { duplex: options.duplex } : {}),
+    } as RequestInit);
+    const form = await request.clone().formData();
+    const map = JSON.parse(form.get('map') as string) as Record<
+      string,
+      Array<ObjectPath>
+    >;
+    const parsed = await parseMultipartRequest(request);
+
+    operations = parsed.operations;
+    parsed.files.forEach((file, fieldName) => {
+      files.push({
+        fieldName,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        paths: map[fieldName],
+        file,
+      });
+    });
+  } else if (typeof body === 'string') {
+    operations = JSON.parse(body);
+  }
+
+  const operation = Array.isArray(operations) ? {} : operations;
+
+  return {
+    uri,
+    method,
+    headers,
+    multipart,
+    operations,
+    ...(typeof operation.operationName === 'string'
+      ? { operationName: operation.operationName }
+      : {}),
+    variables: (operation.variables ?? {}) as Record<string, unknown>,
+    files,
+  };
+}
+
+/**
+ * Creates a `fetch` stub for the upload link `fetch` option, for testing code
+ * that uploads files. Each request is captured, decoded with the files put
+ * back at their object paths, and answered with the next scripted response,
+ * which can delay, report upload progress, or fail.
+ * @param options Options.
+ * @returns Mock upload fetch.
+ * @example
+ * ```ts
+ * const fetch = createMockUploadFetch({
+ *   responses: [{ result: { data: { uploadAvatar: true } }, delay: 100 }],
+ * });
+ * const link = new UploadHttpLink({ fetch });
+ *
+ * // After running an operation:
+ * expect(fetch.requests[0].variables.file).toMatchObject({ name: 'a.png' });
+ * ```
+ */
+export function createMockUploadFetch(
+  options: MockUploadFetchOptions = {}
+): MockUploadFetch {
+  const { defaultResponse = {} } = options;
+  const requests: Array<CapturedUploadRequest> = [];
+  let responses = [...(options.responses ?? [])];
+
+  const mockFetch = async (
+    input: RequestInfo | URL,
+    init: UploadRequestInit = {}
+  ) => {
+    const { signal, onUploadProgress } = init;
+    const request = await captureRequest(
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url,
+      init
+    );
+    requests.push(request);
+
+    const responder = responses.shift() ?? defaultResponse;
+    const {
+      result = { data: {} },
+      status = 200,
+      headers,
+      delay = 0,
+      progressSteps = 0,
+      error,
+    } = typeof responder === 'function' ? await responder(request) : responder;
+
+    if (progressSteps > 0 && onUploadProgress) {
+      const total = request.files.reduce((size, file) => size + file.size, 0);
+      for (let step = 1; step <= progressSteps; step++) {
+        await wait(delay / progressSteps, signal ?? undefined);
+        onUploadProgress({
+          loaded: Math.round((total * step) / progressSteps),
+          total,
+        });
+      }
+    } else if (delay > 0) {
+      await wait(delay, signal ?? undefined);
+    }
+
+    throwIfAborted(signal ?? undefined);
+    if (error !== undefined) throw error;
+
+    return new Response(JSON.stringify(result), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
+  };
+
+  return Object.assign(mockFetch, {
+    requests,
+    respondWith(...scripted: Array<MockUploadResponder>) {
+      responses.push(...scripted);
+    },
+    reset() {
+      requests.length = 0;
+      responses = [];
+    },
+  });
+}
@@ -0,0 +1,131 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import {
+  OfflineUploadQueue,
+  type ReplayResult,
+} from '../../src/OfflineUploadQueue/OfflineUploadQueue.js';
+import { UploadQueuedError } from '../../src/UploadHttpLink/errors.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('OfflineUploadQueue', () => {
+  const query = gql`
+    mutation UploadAvatar($file: Upload!) {
+      uploadAvatar(file: $file)
+    }
+  `;
+
+  const file = new File(['avatar'], 'avatar.png', { type: 'image/png' });
+
+  const setup = (offlineQueue: OfflineUploadQueue) => {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { uploadAvatar: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink({ fetch, offlineQueue });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const run = () =>
+      firstValueFrom(execute(link, { query, variables: { file } }, { client }));
+
+    return { fetch, client, run };
+  };
+
+  it('should queue operations failing with a network error and replay them', async () => {
+    const replayResults: Array<ReplayResult> = [];
+    const offlineQueue = new OfflineUploadQueue({
+      onReplayResult: (replayResult) => replayResults.push(replayResult),
+    });
+    const { fetch, client, run } = setup(offlineQueue);
+    fetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const error = await run().catch((error: unknown) => error);
+
+    expect(UploadQueuedError.is(error)).toBe(true);
+    expect((error as UploadQueuedError).cause).toBeInstanceOf(TypeError);
+
+    const [queued] = await offlineQueue.getAll();
+    expect(queued).toMatchObject({
+      id: (error as UploadQueuedError).queuedUploadId,
+      operationName: 'UploadAvatar',
+      variables: { file: null },
+      files: [{ file, paths: ['variables.file'] }],
+    });
+
+    await offlineQueue.replay(client);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const body = fetch.mock.calls[1][1]?.body as FormData;
+    expect(body.get('map')).toBe('{"1":["variables.file"]}');
+    expect(body.get('1')).toBeInstanceOf(File);
+    expect(replayResults).toEqual([
+      { upload: queued, result: { data: { uploadAvatar: true } } },
+    ]);
+    expect(await offlineQueue.getAll()).toEqual([]);
+  });
+
+  it('should keep an upload queued when its replay fails with a network error', async () => {
+    const onReplayResult = vi.fn();
+    const offlineQueue = new OfflineUploadQueue({ onReplayResult });
+    const { fetch, client, run } = setup(offlineQueue);
+    fetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await run().catch(() => {});
+    const queued = await offlineQueue.getAll();
+    await offlineQueue.replay(client);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await offlineQueue.getAll()).toEqual(queued);
+    expect(onReplayResult).not.toHaveBeenCalled();
+  });
+
+  it('should not queue operations failing with a TypeError of other code', async () => {
+    const offlineQueue = new OfflineUploadQueue();
+    const fetch = vi.fn();
+    const link = new UploadHttpLink({
+      fetch,
+      offlineQueue,
+      transformFile: () => {
+        throw new TypeError('Cannot read properties of undefined');
+      },
+    });
+
+    const error = await firstValueFrom(
+      execute(
+        link,
+        { query, variables: { file } },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TypeError);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await offlineQueue.getAll()).toEqual([]);
+  });
+
+  it('should queue duplicate operations once while offline', async () => {
+    let offline = true;
+    const offlineQueue = new OfflineUploadQueue({ isOffline: () => offline });
+    const { fetch, client, run } = setup(offlineQueue);
+
+    const errors = await Promise.all([
+      run().catch((error: unknown) => error),
+      run().catch((error: unknown) => error),
+    ]);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect((errors[0] as UploadQueuedError).queuedUploadId).toBe(
+      (errors[1] as UploadQueuedError).queuedUploadId
+    );
+
+    await offlineQueue.replay(client);
+
+    expect(fetch).not.toHaveBeenCalled();
+
+    offline = false;
+    await offlineQueue.replay(client);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(await offlineQueue.getAll()).toEqual([]);
+  });
+});
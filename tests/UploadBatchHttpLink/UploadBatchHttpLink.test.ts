@@ -0,0 +1,127 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadBatchHttpLink } from '../../src/UploadBatchHttpLink/UploadBatchHttpLink.js';
+
+describe('UploadBatchHttpLink', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file)
+    }
+  `;
+
+  it('should send a batch with files as one multipart request, sending shared files once', async () => {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(
+          JSON.stringify([
+            { data: { upload: 'a' } },
+            { data: { upload: 'b' } },
+            { data: { upload: 'c' } },
+          ]),
+          { headers: { 'content-type': 'application/json' } }
+        )
+    );
+    const link = new UploadBatchHttpLink({ fetch, batchInterval: 5 });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const shared = new File(['a'], 'a.txt');
+    const other = new File(['b'], 'b.txt');
+
+    const results = await Promise.all(
+      [shared, other, shared].map((file) =>
+        firstValueFrom(
+          execute(link, { query, variables: { file } }, { client })
+        )
+      )
+    );
+
+    expect(results).toEqual([
+      { data: { upload: 'a' } },
+      { data: { upload: 'b' } },
+      { data: { upload: 'c' } },
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const form = fetch.mock.calls[0][1]!.body as FormData;
+    const operations = JSON.parse(form.get('operations') as string);
+
+    expect(operations).toHaveLength(3);
+    expect(operations.map((operation: any) => operation.variables)).toEqual([
+      { file: null },
+      { file: null },
+      { file: null },
+    ]);
+    expect(JSON.parse(form.get('map') as string)).toEqual({
+      1: ['0.variables.file', '2.variables.file'],
+      2: ['1.variables.file'],
+    });
+    expect(await (form.get('1') as File).text()).toBe('a');
+    expect(await (form.get('2') as File).text()).toBe('b');
+  });
+
+  it('should send preflight headers with multipart batches only', async () => {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify([{ data: { upload: 'a' } }]), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const run = (link: UploadBatchHttpLink, file: unknown) =>
+      firstValueFrom(
+        execute(
+          link,
+          { query, variables: { file } },
+          { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+        )
+      );
+
+    await run(new UploadBatchHttpLink({ fetch }), new File(['a'], 'a.txt'));
+    await run(new UploadBatchHttpLink({ fetch }), 'key');
+    await run(
+      new UploadBatchHttpLink({
+        fetch,
+        preserveHeaderCase: true,
+        headers: { 'X-Apollo-Operation-Name': 'Custom' },
+        preflightHeaders: 'operation-name',
+      }),
+      new File(['a'], 'a.txt')
+    );
+
+    const [[, multipart], [, json], [, custom]] = fetch.mock.calls;
+    expect(multipart!.headers).toMatchObject({
+      'apollo-require-preflight': 'true',
+    });
+    expect(json!.headers).not.toHaveProperty('apollo-require-preflight');
+    expect(custom!.headers).toEqual({
+      accept: expect.any(String),
+      'X-Apollo-Operation-Name': 'Custom',
+    });
+  });
+
+  it('should send a batch without files as JSON', async () => {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify([{ data: { upload: 'a' } }]), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadBatchHttpLink({ fetch });
+
+    const result = await firstValueFrom(
+      execute(
+        link,
+        { query, variables: { file: 'key' } },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+
+    expect(result).toEqual({ data: { upload: 'a' } });
+
+    const init = fetch.mock.calls[0][1]!;
+    expect(JSON.parse(init.body as string)[0].variables).toEqual({
+      file: 'key',
+    });
+    expect((init.headers as Record<string, string>)['content-type']).toBe(
+      'application/json'
+    );
+  });
+});
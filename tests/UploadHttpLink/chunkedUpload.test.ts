@@ -0,0 +1,141 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { firstValueFrom } from 'rxjs';
+import type { ApolloLink } from '@apollo/client';
+import { execute, gql } from '@apollo/client';
+import { ApolloClient, InMemoryCache } from '@apollo/client';
+import { createTusUploadProtocol } from '../../src/UploadHttpLink/tusUploadProtocol.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink chunked uploads', () => {
+  let server: Server;
+  let origin: string;
+  let failNextChunk = false;
+  const uploads = new Map<string, { length: number; chunks: Array<Buffer> }>();
+  const patchOffsets: Array<number> = [];
+  const graphqlRequests: Array<{ contentType?: string; body: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const chunks: Array<Buffer> = [];
+      request.on('data', (chunk) => chunks.push(chunk));
+      request.on('end', () => {
+        const url = request.url!;
+
+        if (url === '/graphql') {
+          graphqlRequests.push({
+            contentType: request.headers['content-type'],
+            body: Buffer.concat(chunks).toString(),
+          });
+          response.setHeader('content-type', 'application/json');
+          response.end(JSON.stringify({ data: { upload: true } }));
+          return;
+        }
+
+        if (request.method === 'POST' && url === '/files') {
+          const id = String(uploads.size + 1);
+          uploads.set(id, {
+            length: Number(request.headers['upload-length']),
+            chunks: [],
+          });
+          response.writeHead(201, { location: `/files/${id}` });
+          response.end();
+          return;
+        }
+
+        const upload = uploads.get(url.slice('/files/'.length))!;
+        if (request.method === 'PATCH') {
+          patchOffsets.push(Number(request.headers['upload-offset']));
+          if (failNextChunk) {
+            failNextChunk = false;
+            response.writeHead(500);
+            response.end();
+            return;
+          }
+          upload.chunks.push(Buffer.concat(chunks));
+        }
+
+        response.writeHead(request.method === 'PATCH' ? 204 : 200, {
+          'upload-offset': String(Buffer.concat(upload.chunks).length),
+          'upload-length': String(upload.length),
+        });
+        response.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    origin = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const mutation = gql`
+    mutation Upload($small: Upload!, $large: Upload!) {
+      upload(small: $small, large: $large)
+    }
+  `;
+
+  function createLink() {
+    return new UploadHttpLink({
+      uri: `${origin}/graphql`,
+      chunkedUpload: {
+        chunkSize: 4,
+        retryDelay: 0,
+        protocol: createTusUploadProtocol({ endpoint: `${origin}/files` }),
+      },
+    });
+  }
+
+  function run(link: ApolloLink, variables: Record<string, unknown>) {
+    return firstValueFrom(
+      execute(
+        link,
+        { query: mutation, variables },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+  }
+
+  beforeEach(() => {
+    uploads.clear();
+    patchOffsets.length = 0;
+    graphqlRequests.length = 0;
+  });
+
+  it('should send large files in chunks ahead of the multipart request', async () => {
+    const result = await run(createLink(), {
+      small: new Blob(['abc']),
+      large: new Blob(['0123456789']),
+    });
+
+    expect(result).toEqual({ data: { upload: true } });
+    expect(patchOffsets).toEqual([0, 4, 8]);
+    expect(Buffer.concat(uploads.get('1')!.chunks).toString()).toBe(
+      '0123456789'
+    );
+    expect(graphqlRequests).toHaveLength(1);
+    expect(graphqlRequests[0].contentType).toMatch(/^multipart\/form-data/);
+    expect(graphqlRequests[0].body).toContain(`"large":"${origin}/files/1"`);
+    expect(graphqlRequests[0].body).toContain('{"1":["variables.small"]}');
+  });
+
+  it('should retry a failed chunk on its own and send a regular request when every file was chunked', async () => {
+    failNextChunk = true;
+
+    const result = await run(createLink(), {
+      small: new Blob(['abcdef']),
+      large: new Blob(['0123456789']),
+    });
+
+    expect(result).toEqual({ data: { upload: true } });
+    expect(patchOffsets).toEqual([0, 0, 4, 0, 4, 8]);
+    expect(graphqlRequests).toHaveLength(1);
+    expect(graphqlRequests[0].contentType).toBe('application/json');
+    expect(JSON.parse(graphqlRequests[0].body).variables).toEqual({
+      small: `${origin}/files/1`,
+      large: `${origin}/files/2`,
+    });
+  });
+});
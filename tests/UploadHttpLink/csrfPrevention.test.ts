@@ -0,0 +1,90 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadCsrfError } from '../../src/UploadHttpLink/errors.js';
+import {
+  UploadHttpLink,
+  type UploadHttpLinkOptions,
+} from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink CSRF prevention', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file)
+    }
+  `;
+
+  function run(options: UploadHttpLinkOptions, response = respond()) {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) => response
+    );
+    const link = new UploadHttpLink({ ...options, fetch });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const result = firstValueFrom(
+      execute(
+        link,
+        { query, variables: { file: new File(['a'], 'a.txt') } },
+        { client }
+      )
+    );
+    return { fetch, result };
+  }
+
+  function respond(
+    body: unknown = { data: { upload: true } },
+    init: ResponseInit = { headers: { 'content-type': 'application/json' } }
+  ) {
+    return new Response(JSON.stringify(body), init);
+  }
+
+  it('should send a preflight header unless already set', async () => {
+    const headersOf = async (options: UploadHttpLinkOptions) => {
+      const { fetch, result } = run(options);
+      await result;
+      return fetch.mock.calls[0][1]!.headers;
+    };
+
+    expect(await headersOf({})).toMatchObject({
+      'apollo-require-preflight': 'true',
+    });
+    expect(
+      await headersOf({ preflightHeaders: 'operation-name' })
+    ).toMatchObject({ 'x-apollo-operation-name': 'Upload' });
+    expect(
+      await headersOf({
+        preserveHeaderCase: true,
+        headers: { 'Apollo-Require-Preflight': 'yes' },
+      })
+    ).not.toHaveProperty('apollo-require-preflight');
+    expect(await headersOf({ preflightHeaders: false })).not.toHaveProperty(
+      'apollo-require-preflight'
+    );
+  });
+
+  it('should fail CSRF rejections with an UploadCsrfError', async () => {
+    const message =
+      "This operation has been blocked as a potential Cross-Site Request Forgery (CSRF). Please either specify a 'content-type' header (with a type that is not one of application/x-www-form-urlencoded, multipart/form-data, text/plain) or provide a non-empty value for one of the following headers: x-apollo-operation-name, apollo-require-preflight\n";
+
+    await expect(
+      run(
+        { preflightHeaders: false },
+        respond(
+          { errors: [{ message }] },
+          {
+            status: 400,
+            headers: { 'content-type': 'application/graphql-response+json' },
+          }
+        )
+      ).result
+    ).rejects.toBeInstanceOf(UploadCsrfError);
+
+    await expect(
+      run(
+        { preflightHeaders: false },
+        new Response(message, {
+          status: 400,
+          headers: { 'content-type': 'text/plain' },
+        })
+      ).result
+    ).rejects.toThrow('`Apollo-Require-Preflight: true`');
+  });
+});
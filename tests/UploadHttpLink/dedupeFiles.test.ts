@@ -0,0 +1,84 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import {
+  UploadHttpLink,
+  type UploadHttpLinkOptions,
+} from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink dedupeFiles', () => {
+  const query = gql`
+    mutation Upload($files: [Upload!]!) {
+      upload(files: $files)
+    }
+  `;
+
+  function run(options: UploadHttpLinkOptions, files: Array<Blob>) {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { upload: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink({ ...options, fetch });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const result = firstValueFrom(
+      execute(link, { query, variables: { files } }, { client })
+    );
+    return { fetch, result };
+  }
+
+  // SHA-256 of `same`.
+  const sameHash =
+    '0967115f2813a3541eaef77de9d9d5773f1c0c04314b0bbfe4ff3b3b1c55b5d5';
+
+  it('should send files with identical content once', async () => {
+    const { fetch, result } = run({ dedupeFiles: true }, [
+      new Blob(['same']),
+      new Blob(['other']),
+      new Blob(['same']),
+    ]);
+    await result;
+
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(body.get('map')).toBe(
+      '{"1":["variables.files.0","variables.files.2"],"2":["variables.files.1"]}'
+    );
+    expect(body.has('3')).toBe(false);
+  });
+
+  it('should replace files the server already has with references', async () => {
+    const checkExisting = vi.fn(async (hashes: Array<string>) =>
+      hashes.filter((hash) => hash === sameHash)
+    );
+    const { fetch, result } = run(
+      {
+        dedupeFiles: {
+          checkExisting,
+          reference: (hash) => ({ sha256: hash }),
+        },
+      },
+      [new Blob(['same']), new Blob(['other'])]
+    );
+    await result;
+
+    expect(checkExisting).toHaveBeenCalledWith(
+      [sameHash, expect.any(String)],
+      expect.anything()
+    );
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(JSON.parse(body.get('operations') as string)).toMatchObject({
+      variables: { files: [{ sha256: sameHash }, null] },
+    });
+    expect(body.get('map')).toBe('{"1":["variables.files.1"]}');
+
+    const { fetch: jsonFetch, result: jsonResult } = run(
+      { dedupeFiles: { checkExisting: (hashes) => hashes } },
+      [new Blob(['same'])]
+    );
+    await jsonResult;
+
+    expect(
+      JSON.parse(jsonFetch.mock.calls[0][1]!.body as string)
+    ).toMatchObject({ variables: { files: [sameHash] } });
+  });
+});
@@ -0,0 +1,144 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { ServerError } from '@apollo/client/errors';
+import type { DirectUploadOptions } from '../../src/UploadHttpLink/directUpload.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink directUpload', () => {
+  const query = gql`
+    mutation Upload($files: [Upload!]!) {
+      upload(files: $files)
+    }
+  `;
+
+  function setup(
+    directUpload: DirectUploadOptions,
+    respondStorage: (url: string) => Promise<Response> = async () =>
+      new Response(null, { status: 200 })
+  ) {
+    const fetch = vi.fn(async (uri: RequestInfo | URL, _init?: RequestInit) =>
+      String(uri) === '/graphql'
+        ? new Response(JSON.stringify({ data: { upload: true } }), {
+            headers: { 'content-type': 'application/json' },
+          })
+        : respondStorage(String(uri))
+    );
+    const link = new UploadHttpLink({ fetch, directUpload });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const run = (files: Array<Blob>) =>
+      firstValueFrom(
+        execute(link, { query, variables: { files } }, { client })
+      );
+
+    return { fetch, run };
+  }
+
+  it('should PUT and POST files to their targets, then send their keys', async () => {
+    const a = new File(['a'], 'a.txt', { type: 'text/plain' });
+    const b = new File(['b'], 'b.png', { type: 'image/png' });
+    const { fetch, run } = setup({
+      getUploadTarget: (file) =>
+        file === a
+          ? {
+              url: 'https://storage/a',
+              headers: { 'x-amz-acl': 'private' },
+              key: 'uploads/a',
+            }
+          : {
+              url: 'https://storage/b',
+              method: 'POST',
+              fields: { policy: 'p' },
+              key: { bucket: 'uploads', name: 'b' },
+            },
+    });
+
+    await expect(run([a, b])).resolves.toEqual({ data: { upload: true } });
+
+    const [[putUri, put], [postUri, post], [graphqlUri, graphql]] =
+      fetch.mock.calls;
+    expect(putUri).toBe('https://storage/a');
+    expect(put).toMatchObject({
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/plain', 'x-amz-acl': 'private' },
+      body: a,
+    });
+    expect(postUri).toBe('https://storage/b');
+    expect(post!.method).toBe('POST');
+    const form = post!.body as FormData;
+    expect(Array.from(form.keys())).toEqual(['policy', 'file']);
+    expect(form.get('policy')).toBe('p');
+    expect((form.get('file') as File).name).toBe('b.png');
+    expect(graphqlUri).toBe('/graphql');
+    expect(JSON.parse(graphql!.body as string)).toMatchObject({
+      variables: { files: ['uploads/a', { bucket: 'uploads', name: 'b' }] },
+    });
+  });
+
+  it('should upload at most `concurrency` files at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const { fetch, run } = setup(
+      {
+        getUploadTarget: (_file, paths) => ({
+          url: `https://storage/${paths[0]}`,
+          key: paths[0],
+        }),
+        concurrency: 2,
+      },
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return new Response(null, { status: 200 });
+      }
+    );
+
+    await run(Array.from({ length: 5 }, (_, index) => new Blob([`${index}`])));
+
+    expect(maxInFlight).toBe(2);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('should stop uploading and clean up when an upload fails', async () => {
+    const cleanup = vi.fn();
+    const { fetch, run } = setup(
+      {
+        getUploadTarget: (_file, paths) => ({
+          url: `https://storage/${paths[0]}`,
+          key: paths[0],
+        }),
+        concurrency: 1,
+        cleanup,
+      },
+      async (url) =>
+        new Response(url.endsWith('.1') ? 'Denied' : null, {
+          status: url.endsWith('.1') ? 403 : 200,
+        })
+    );
+
+    const error = await run([
+      new Blob(['a']),
+      new Blob(['b']),
+      new Blob(['c']),
+    ]).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect((error as ServerError).statusCode).toBe(403);
+    expect(fetch.mock.calls.map(([uri]) => uri)).toEqual([
+      'https://storage/variables.files.0',
+      'https://storage/variables.files.1',
+    ]);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(cleanup).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          paths: ['variables.files.0'],
+          target: expect.objectContaining({ key: 'variables.files.0' }),
+        }),
+      ],
+      error,
+      expect.anything()
+    );
+  });
+});
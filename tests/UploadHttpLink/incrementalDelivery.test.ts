@@ -0,0 +1,62 @@
+import { lastValueFrom, toArray } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink incremental delivery', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file) {
+        id
+        ... @defer {
+          thumbnail
+        }
+      }
+    }
+  `;
+
+  it('should emit each payload of a multipart/mixed response as it arrives', async () => {
+    const encoder = new TextEncoder();
+    const parts = [
+      '\r\n---\r\ncontent-type: application/json; charset=utf-8\r\n\r\n',
+      '{"data":{"upload":{"id":"1"}},"hasNext":true}',
+      '\r\n---\r\ncontent-type: application/json; charset=utf-8\r\n\r\n',
+      '{"incremental":[{"data":{"thumbnail":"t.png"},"path":["upload"]}],"hasNext":false}',
+      '\r\n-----\r\n',
+    ];
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+              controller.close();
+            },
+          }),
+          {
+            headers: {
+              'content-type':
+                'multipart/mixed; boundary="-"; deferSpec=20220824',
+            },
+          }
+        )
+    );
+    const link = new UploadHttpLink({ fetch });
+
+    const results = await lastValueFrom(
+      execute(
+        link,
+        { query, variables: { file: new File(['a'], 'a.txt') } },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      ).pipe(toArray())
+    );
+
+    expect(fetch.mock.calls[0][1]!.body).toBeInstanceOf(FormData);
+    expect(results).toEqual([
+      { data: { upload: { id: '1' } }, hasNext: true },
+      {
+        incremental: [{ data: { thumbnail: 't.png' }, path: ['upload'] }],
+        hasNext: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { createMultipartEncoder } from '../../src/UploadHttpLink/multipartEncoder.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('createMultipartEncoder', () => {
+  const input = {
+    operations:
+      '{"query":"mutation($file:Upload!){upload(file:$file)}","variables":{"file":null}}',
+    map: '{"1":["variables.file"]}',
+    files: [
+      {
+        fieldName: '1',
+        file: new File(['a'], 'a "quoted".txt', { type: 'text/plain' }),
+      },
+    ],
+  };
+
+  it('should encode the exact multipart body', async () => {
+    const encoded = await createMultipartEncoder({
+      boundary: 'boundary',
+      stream: false,
+    })(input, { streamable: true });
+
+    expect(encoded.body).toBeInstanceOf(Blob);
+    expect(encoded.contentType).toBe('multipart/form-data; boundary=boundary');
+    expect(encoded.contentLength).toBe((encoded.body as Blob).size);
+    const text = await (encoded.body as Blob).text();
+
+    // Every line ends with CRLF, which the snapshot shows as line breaks.
+    expect(text.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(text).toMatchInlineSnapshot(`
+      "--boundary
+      Content-Disposition: form-data; name="operations"
+
+      {"query":"mutation($file:Upload!){upload(file:$file)}","variables":{"file":null}}
+      --boundary
+      Content-Disposition: form-data; name="map"
+
+      {"1":["variables.file"]}
+      --boundary
+      Content-Disposition: form-data; name="1"; filename="a %22quoted%22.txt"
+      Content-Type: text/plain
+
+      a
+      --boundary--
+      "
+    `);
+  });
+
+  it('should stream the same body with part overrides', async () => {
+    const encoder = createMultipartEncoder({
+      boundary: 'boundary',
+      filePart: () => ({
+        body: new Blob(['b']).stream(),
+        size: 1,
+        contentType: 'application/x-custom',
+      }),
+    });
+
+    const streamed = await encoder(input, { streamable: true });
+    const buffered = await encoder(input, { streamable: false });
+    const streamedText = await new Response(streamed.body).text();
+
+    expect(streamed.body).toBeInstanceOf(ReadableStream);
+    expect(streamedText).toBe(await (buffered.body as Blob).text());
+    expect(streamedText).toContain(
+      'filename="a %22quoted%22.txt"\r\nContent-Type: application/x-custom\r\n\r\nb\r\n'
+    );
+    expect(streamed.contentLength).toBe(new Blob([streamedText]).size);
+  });
+
+  it('should send a streamed body with the upload link', async () => {
+    const requests: Array<{ headers: Record<string, unknown>; body: string }> =
+      [];
+    const server: Server = createServer((request, response) => {
+      const chunks: Array<Buffer> = [];
+      request.on('data', (chunk) => chunks.push(chunk));
+      request.on('end', () => {
+        requests.push({
+          headers: request.headers,
+          body: Buffer.concat(chunks).toString(),
+        });
+        response.setHeader('content-type', 'application/json');
+        response.end(JSON.stringify({ data: { upload: true } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    try {
+      const link = new UploadHttpLink({
+        uri: `http://localhost:${(server.address() as AddressInfo).port}/graphql`,
+        encoder: createMultipartEncoder({ boundary: 'boundary' }),
+      });
+
+      const result = await firstValueFrom(
+        execute(
+          link,
+          {
+            query: gql`
+              mutation Upload($file: Upload!) {
+                upload(file: $file)
+              }
+            `,
+            variables: { file: new File(['a'], 'a.txt') },
+          },
+          { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+        )
+      );
+
+      expect(result).toEqual({ data: { upload: true } });
+      expect(requests[0].headers['content-type']).toBe(
+        'multipart/form-data; boundary=boundary'
+      );
+      expect(requests[0].headers['content-length']).toBe(
+        String(Buffer.byteLength(requests[0].body))
+      );
+      expect(requests[0].body).toContain(
+        'Content-Disposition: form-data; name="1"; filename="a.txt"\r\nContent-Type: application/octet-stream\r\n\r\na\r\n--boundary--\r\n'
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { createHash } from 'node:crypto';
+import { firstValueFrom } from 'rxjs';
+import {
+  ApolloClient,
+  ApolloLink,
+  execute,
+  gql,
+  InMemoryCache,
+} from '@apollo/client';
+import { PersistedQueryLink } from '@apollo/client/link/persisted-queries';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink persisted queries', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file)
+    }
+  `;
+
+  it('should send only the hash, then resend the full query with the same files if not found', async () => {
+    const requests: Array<{ operations: any; file: File; method?: string }> =
+      [];
+    const fetch = vi.fn(async (_uri: RequestInfo | URL, init?: RequestInit) => {
+      const form = init!.body as FormData;
+      requests.push({
+        operations: JSON.parse(form.get('operations') as string),
+        file: form.get('1') as File,
+        method: init!.method,
+      });
+      return new Response(
+        JSON.stringify(
+          requests.length === 1
+            ? { errors: [{ message: 'PersistedQueryNotFound' }] }
+            : { data: { upload: true } }
+        ),
+        { headers: { 'content-type': 'application/json' } }
+      );
+    });
+    const link = ApolloLink.from([
+      new PersistedQueryLink({
+        sha256: (text) => createHash('sha256').update(text).digest('hex'),
+        useGETForHashedQueries: true,
+      }),
+      new UploadHttpLink({ fetch }),
+    ]);
+    const file = new File(['a'], 'a.txt');
+
+    const result = await firstValueFrom(
+      execute(
+        link,
+        { query, variables: { file } },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+
+    expect(result).toEqual({ data: { upload: true } });
+    expect(requests).toHaveLength(2);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].operations.query).toBeUndefined();
+    expect(requests[0].operations.extensions.persistedQuery.sha256Hash).toMatch(
+      /^[\da-f]{64}$/
+    );
+    expect(requests[1].operations.query).toContain('mutation Upload');
+    expect(requests[1].operations.extensions.persistedQuery).toEqual(
+      requests[0].operations.extensions.persistedQuery
+    );
+    expect(await requests[1].file.text()).toBe('a');
+    expect(requests[1].file.name).toBe('a.txt');
+  });
+});
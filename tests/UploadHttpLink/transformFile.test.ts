@@ -0,0 +1,65 @@
+import type { ApolloLink } from '@apollo/client';
+import { isExtractableFile } from '../../src/extractFiles/isExtractableFile.js';
+import {
+  blobTransform,
+  contentHash,
+  transformFiles,
+} from '../../src/UploadHttpLink/transformFile.js';
+
+describe('transformFiles', () => {
+  const operation = { operationName: 'Upload' } as ApolloLink.Operation;
+
+  it('should run the steps in order, replacing files and gathering metadata', async () => {
+    const photo = new File(['photo'], 'photo.png', { type: 'image/png' });
+    const text = new File(['text'], 'notes.txt', { type: 'text/plain' });
+
+    const { files, metadata } = await transformFiles(
+      new Map([
+        [photo, ['variables.photo']],
+        [text, ['variables.notes']],
+      ]),
+      [
+        blobTransform(
+          async (blob) =>
+            new Blob([(await blob.text()).toUpperCase()], { type: blob.type }),
+          { accept: ['image/*'] }
+        ),
+        contentHash(),
+      ],
+      isExtractableFile,
+      { operation }
+    );
+
+    const [resized, notes] = Array.from(files.keys()) as Array<File>;
+    expect(resized).not.toBe(photo);
+    expect(resized).toBeInstanceOf(File);
+    expect(resized.name).toBe('photo.png');
+    expect(await resized.text()).toBe('PHOTO');
+    expect(files.get(resized)).toEqual(['variables.photo']);
+    expect(notes).toBe(text);
+    expect(metadata.get(notes)).toEqual({
+      contentHash:
+        '982d9e3eb996f559e633f4d194def3761d909f5a3b647d1a851fead67c32c9d1',
+    });
+  });
+
+  it('should stop once aborted', async () => {
+    const controller = new AbortController();
+    const step = vi.fn(() => {
+      controller.abort(new Error('Cancelled.'));
+    });
+
+    await expect(
+      transformFiles(
+        new Map([
+          [new Blob(['a']), ['variables.a']],
+          [new Blob(['b']), ['variables.b']],
+        ]),
+        [step, step],
+        isExtractableFile,
+        { operation, signal: controller.signal }
+      )
+    ).rejects.toThrow('Cancelled.');
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,190 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadAbortedError } from '../../src/UploadHttpLink/errors.js';
+import type { MultipartEncoder } from '../../src/UploadHttpLink/multipartEncoder.js';
+import type { UploadCancelEvent } from '../../src/UploadHttpLink/uploadCancellation.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+import type { UploadRequestInit } from '../../src/UploadHttpLink/xhrFetch.js';
+
+describe('UploadHttpLink cancellation', () => {
+  const query = gql`
+    mutation Upload($files: [Upload!]!) {
+      upload(files: $files)
+    }
+  `;
+
+  function run(link: UploadHttpLink, context?: Record<string, unknown>) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(
+      execute(
+        link,
+        {
+          query,
+          variables: {
+            files: [new File(['a'], 'a.txt'), new File(['b'], 'b.txt')],
+          },
+          context,
+        },
+        { client }
+      )
+    );
+  }
+
+  const respond = () =>
+    new Response(JSON.stringify({ data: { upload: true } }), {
+      headers: { 'content-type': 'application/json' },
+    });
+
+  it('should cancel an operation by its upload ID with partial progress', async () => {
+    const events: Array<UploadCancelEvent> = [];
+    const fetch = vi.fn(
+      (_uri: RequestInfo | URL, init?: UploadRequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init!.signal!.addEventListener('abort', () =>
+            reject(init!.signal!.reason)
+          );
+          init!.onUploadProgress!({ loaded: 100, total: 400 });
+          expect(link.cancel('other')).toBe(false);
+          expect(link.cancel('avatar')).toBe(true);
+        })
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      onCancel: (event) => events.push(event),
+    });
+
+    const error = await run(link, { upload: { uploadId: 'avatar' } }).catch(
+      (error: unknown) => error
+    );
+
+    expect(error).toBeInstanceOf(UploadAbortedError);
+    expect((error as UploadAbortedError).progress).toEqual({
+      loaded: 100,
+      total: 400,
+    });
+    expect(events).toEqual([
+      {
+        uploadId: 'avatar',
+        operation: expect.anything(),
+        progress: { loaded: 100, total: 400 },
+      },
+    ]);
+    expect(link.cancel('avatar')).toBe(false);
+  });
+
+  it('should not change the transport of an operation with an upload ID', async () => {
+    const fetch = vi.fn(async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+      respond()
+    );
+    const XMLHttpRequest = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('XMLHttpRequest', XMLHttpRequest);
+    const encoder = vi.fn<MultipartEncoder>(async () => ({
+      body: new Blob(['--x--']),
+      contentType: 'multipart/form-data; boundary=x',
+    }));
+
+    try {
+      await run(new UploadHttpLink({ encoder }), {
+        upload: { uploadId: 'avatar' },
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(XMLHttpRequest).not.toHaveBeenCalled();
+    expect(encoder.mock.calls[0][1]).toEqual({ streamable: true });
+  });
+
+  it('should drop a file cancelled before the request starts', async () => {
+    const onCancel = vi.fn();
+    const cancelled: Array<boolean> = [];
+    const fetch = vi.fn(async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+      respond()
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      transformFile: (_file, { paths }) => {
+        if (paths[0] === 'variables.files.0') {
+          cancelled.push(
+            link.cancel('batch', 'variables.files.2'),
+            link.cancel('batch', 'variables.files.1')
+          );
+        }
+      },
+    });
+
+    await expect(
+      run(link, { upload: { uploadId: 'batch', onCancel } })
+    ).resolves.toEqual({ data: { upload: true } });
+
+    expect(cancelled).toEqual([false, true]);
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(body.get('map')).toBe('{"1":["variables.files.0"]}');
+    expect(JSON.parse(body.get('operations') as string)).toMatchObject({
+      variables: { files: [null, null] },
+    });
+    expect(onCancel).toHaveBeenCalledWith({
+      uploadId: 'batch',
+      operation: expect.anything(),
+      path: 'variables.files.1',
+    });
+  });
+
+  it('should send nothing once unsubscribed during a transform', async () => {
+    let resolveTransform: (() => void) | undefined;
+    const fetch = vi.fn(async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+      respond()
+    );
+    // Without an abort signal, only the teardown stops the operation.
+    vi.stubGlobal('AbortController', undefined);
+
+    try {
+      const link = new UploadHttpLink({
+        fetch,
+        transformFile: () =>
+          new Promise<void>((resolve) => {
+            resolveTransform = resolve;
+          }),
+      });
+      const client = new ApolloClient({ cache: new InMemoryCache(), link });
+      const subscription = execute(
+        link,
+        { query, variables: { files: [new File(['a'], 'a.txt')] } },
+        { client }
+      ).subscribe({ error: vi.fn() });
+
+      await vi.waitFor(() => expect(resolveTransform).toBeDefined());
+      subscription.unsubscribe();
+      resolveTransform!();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should cancel every operation in flight', async () => {
+    const fetch = vi.fn(
+      (_uri: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init!.signal!.addEventListener('abort', () =>
+            reject(init!.signal!.reason)
+          );
+          if (fetch.mock.calls.length === 2) link.cancelAll();
+        })
+    );
+    const link = new UploadHttpLink({ fetch });
+
+    const results = await Promise.allSettled([run(link), run(link)]);
+
+    results.forEach((result) => {
+      expect(result).toMatchObject({
+        status: 'rejected',
+        reason: expect.any(UploadAbortedError),
+      });
+    });
+  });
+});
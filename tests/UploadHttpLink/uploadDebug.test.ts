@@ -0,0 +1,144 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import type {
+  UploadDebugEvent,
+  UploadSpanAttributes,
+  UploadTracer,
+} from '../../src/UploadHttpLink/uploadDebug.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink debug', () => {
+  const query = gql`
+    mutation UploadAvatar($file: Upload!) {
+      uploadAvatar(file: $file)
+    }
+  `;
+
+  function run(link: UploadHttpLink) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(
+      execute(
+        link,
+        {
+          query,
+          variables: {
+            file: new File(['avatar'], 'avatar.png', { type: 'image/png' }),
+          },
+        },
+        { client }
+      )
+    );
+  }
+
+  function respond(status: number) {
+    return new Response(JSON.stringify({ data: { uploadAvatar: true } }), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  it('should emit structured events with redacted headers', async () => {
+    const events: Array<UploadDebugEvent> = [];
+    const link = new UploadHttpLink({
+      uri: '/upload',
+      headers: { authorization: 'Bearer secret', 'x-api-key': 'key' },
+      fetch: async () => respond(200),
+      debug: {
+        onEvent: (event) => events.push(event),
+        redactHeaders: ['Authorization', 'X-Api-Key'],
+      },
+    });
+
+    await run(link);
+
+    const file = {
+      name: 'avatar.png',
+      size: 6,
+      type: 'image/png',
+      paths: ['variables.file'],
+    };
+    expect(events.map(({ type }) => type)).toEqual([
+      'extract',
+      'request',
+      'response',
+    ]);
+    expect(events[0]).toMatchObject({ files: [file] });
+    expect(events[1]).toMatchObject({
+      uri: '/upload',
+      method: 'POST',
+      headers: {
+        accept: expect.any(String),
+        authorization: '[REDACTED]',
+        'x-api-key': '[REDACTED]',
+      },
+      fields: [
+        { name: 'operations', value: expect.stringContaining('"file":null') },
+        { name: 'map', value: '{"1":["variables.file"]}' },
+        { name: '1', file },
+      ],
+    });
+    expect(events[2]).toMatchObject({
+      status: 200,
+      duration: expect.any(Number),
+    });
+  });
+
+  it('should trace operations as spans', async () => {
+    const spans: Array<{
+      name: string;
+      attributes: UploadSpanAttributes;
+      status?: { code: number; message?: string };
+      exceptions: Array<unknown>;
+      ended: boolean;
+    }> = [];
+    const tracer: UploadTracer = {
+      startSpan: (name, options) => {
+        const span = {
+          name,
+          attributes: { ...options?.attributes },
+          status: undefined as { code: number; message?: string } | undefined,
+          exceptions: [] as Array<unknown>,
+          ended: false,
+        };
+        spans.push(span);
+        return {
+          setAttributes: (attributes) =>
+            Object.assign(span.attributes, attributes),
+          setStatus: (status) => {
+            span.status = status;
+          },
+          recordException: (exception) => {
+            span.exceptions.push(exception);
+          },
+          end: () => {
+            span.ended = true;
+          },
+        };
+      },
+    };
+    const link = new UploadHttpLink({
+      fetch: async () => respond(500),
+      debug: { tracer },
+    });
+
+    await expect(run(link)).rejects.toThrow();
+
+    expect(spans).toEqual([
+      {
+        name: 'GraphQL upload UploadAvatar',
+        attributes: {
+          'graphql.operation.name': 'UploadAvatar',
+          'graphql.operation.type': 'mutation',
+          'upload.file_count': 1,
+          'upload.total_size': 6,
+          'http.request.method': 'POST',
+          'url.full': '/graphql',
+          'http.response.status_code': 500,
+        },
+        status: { code: 2, message: expect.any(String) },
+        exceptions: [expect.any(Error)],
+        ended: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadTimeoutError } from '../../src/UploadHttpLink/errors.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink upload endpoint', () => {
+  const query = gql`
+    mutation Upload($file: Upload) {
+      upload(file: $file)
+    }
+  `;
+
+  function run(
+    link: UploadHttpLink,
+    variables: Record<string, unknown>,
+    context?: Record<string, unknown>
+  ) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(
+      execute(link, { query, variables, context }, { client })
+    );
+  }
+
+  const respond = async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+    new Response(JSON.stringify({ data: { upload: true } }), {
+      headers: { 'content-type': 'application/json' },
+    });
+
+  it('should send multipart requests with the upload options only', async () => {
+    const fetch = vi.fn(respond);
+    const link = new UploadHttpLink({
+      uri: '/graphql',
+      headers: { 'x-client': 'web' },
+      fetch,
+      uploadUri: (operation) => `/graphql-upload?op=${operation.operationName}`,
+      uploadHeaders: { 'X-Upload': 'yes', 'Content-Type': 'text/plain' },
+      uploadFetchOptions: { keepalive: true },
+    });
+
+    await run(link, { file: new File(['a'], 'a.txt') });
+    await run(link, { file: null });
+    await run(
+      link,
+      { file: new File(['a'], 'a.txt') },
+      { upload: { uri: '/other-upload', headers: { 'x-upload': 'context' } } }
+    );
+
+    const [[uri, init], [jsonUri, jsonInit], [contextUri, contextInit]] =
+      fetch.mock.calls;
+    expect(uri).toBe('/graphql-upload?op=Upload');
+    expect(init).toMatchObject({
+      method: 'POST',
+      keepalive: true,
+      headers: { 'x-client': 'web', 'x-upload': 'yes' },
+    });
+    expect(init!.headers).not.toHaveProperty('content-type');
+    expect(jsonUri).toBe('/graphql');
+    expect(jsonInit).not.toHaveProperty('keepalive');
+    expect(jsonInit!.headers).not.toHaveProperty('x-upload');
+    expect(contextUri).toBe('/other-upload');
+    expect(contextInit!.headers).toMatchObject({ 'x-upload': 'context' });
+  });
+
+  it('should merge the headers of the upload fetch options', async () => {
+    const fetch = vi.fn(respond);
+    const link = new UploadHttpLink({
+      headers: { 'x-client': 'web' },
+      fetch,
+      uploadFetchOptions: { headers: { 'X-Fetch': 'link', 'X-Both': 'link' } },
+    });
+
+    await run(
+      link,
+      { file: new File(['a'], 'a.txt') },
+      {
+        headers: { 'x-context': 'yes' },
+        upload: {
+          fetchOptions: { headers: new Headers({ 'x-both': 'context' }) },
+        },
+      }
+    );
+    await run(
+      new UploadHttpLink({
+        fetch,
+        preserveHeaderCase: true,
+        uploadFetchOptions: { headers: [['X-Fetch', 'link']] },
+      }),
+      { file: new File(['a'], 'a.txt') }
+    );
+
+    expect(fetch.mock.calls[0][1]!.headers).toMatchObject({
+      'x-client': 'web',
+      'x-context': 'yes',
+      'x-fetch': 'link',
+      'x-both': 'context',
+    });
+    expect(fetch.mock.calls[1][1]!.headers).toMatchObject({
+      'X-Fetch': 'link',
+    });
+  });
+
+  it('should abort multipart requests exceeding the upload timeout', async () => {
+    const fetch = vi.fn(
+      (_uri: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init!.signal!.addEventListener('abort', () => {
+            reject(new DOMException('Aborted', 'AbortError'));
+          });
+        })
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      uploadTimeout: 20,
+      retry: { initialDelay: 0 },
+    });
+
+    const error = await run(link, { file: new File(['a'], 'a.txt') }).catch(
+      (error: unknown) => error
+    );
+
+    expect(UploadTimeoutError.is(error)).toBe(true);
+    expect((error as UploadTimeoutError).timeout).toBe(20);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
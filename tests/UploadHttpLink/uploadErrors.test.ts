@@ -0,0 +1,147 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { ServerError } from '@apollo/client/errors';
+import {
+  PayloadTooLargeError,
+  UploadAbortedError,
+  UploadError,
+  UploadNetworkError,
+} from '../../src/UploadHttpLink/errors.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink errors', () => {
+  const query = gql`
+    mutation UploadAvatar($file: Upload!) {
+      uploadAvatar(file: $file)
+    }
+  `;
+
+  function run(link: UploadHttpLink, fetchOptions?: RequestInit) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(
+      execute(
+        link,
+        {
+          query,
+          variables: {
+            file: new File(['avatar'], 'avatar.png', { type: 'image/png' }),
+          },
+          context: { fetchOptions },
+        },
+        { client }
+      )
+    ).catch((error: unknown) => error);
+  }
+
+  const file = {
+    name: 'avatar.png',
+    size: 6,
+    type: 'image/png',
+    paths: ['variables.file'],
+  };
+
+  it('should fail too large uploads with a PayloadTooLargeError', async () => {
+    const error = await run(
+      new UploadHttpLink({
+        fetch: async () =>
+          new Response('<html>Request Entity Too Large</html>', {
+            status: 413,
+            headers: { 'content-type': 'text/html' },
+          }),
+      })
+    );
+
+    expect(PayloadTooLargeError.is(error)).toBe(true);
+    expect(error).toMatchObject({
+      operationName: 'UploadAvatar',
+      files: [file],
+      status: 413,
+      bodySent: true,
+    });
+    expect((error as UploadError).cause).toBeInstanceOf(ServerError);
+
+    const resultError = await run(
+      new UploadHttpLink({
+        fetch: async () =>
+          new Response(
+            JSON.stringify({
+              data: null,
+              errors: [
+                {
+                  message:
+                    'File truncated as it exceeds the 1000 byte size limit.',
+                },
+              ],
+            }),
+            { headers: { 'content-type': 'application/json' } }
+          ),
+      })
+    );
+
+    expect(resultError).toBeInstanceOf(PayloadTooLargeError);
+    expect(resultError).toMatchObject({ status: 200, bodySent: true });
+  });
+
+  it('should fail network failures with an UploadNetworkError', async () => {
+    const error = await run(
+      new UploadHttpLink({
+        fetch: async () => {
+          throw new TypeError('Failed to fetch');
+        },
+      })
+    );
+
+    expect(error).toBeInstanceOf(UploadNetworkError);
+    expect(error).toMatchObject({
+      message:
+        'The upload request of operation `UploadAvatar` failed: Failed to fetch',
+      files: [file],
+      bodySent: false,
+    });
+    expect(error).not.toHaveProperty('status');
+
+    const proxyError = await run(
+      new UploadHttpLink({
+        fetch: async () =>
+          new Response('<html>Bad Gateway</html>', {
+            status: 502,
+            headers: { 'content-type': 'text/html' },
+          }),
+      })
+    );
+
+    expect(proxyError).toBeInstanceOf(UploadNetworkError);
+    expect(proxyError).toMatchObject({ status: 502, bodySent: true });
+  });
+
+  it('should fail aborted uploads with an UploadAbortedError', async () => {
+    const controller = new AbortController();
+    const error = await run(
+      new UploadHttpLink({
+        fetch: async () => {
+          controller.abort();
+          throw new DOMException('Aborted', 'AbortError');
+        },
+      }),
+      { signal: controller.signal }
+    );
+
+    expect(UploadAbortedError.is(error)).toBe(true);
+    expect(UploadError.is(error)).toBe(true);
+    expect(error).toMatchObject({ files: [file], bodySent: false });
+  });
+
+  it('should keep GraphQL server errors as they are', async () => {
+    const error = await run(
+      new UploadHttpLink({
+        fetch: async () =>
+          new Response(JSON.stringify({ errors: [{ message: 'Oops' }] }), {
+            status: 500,
+            headers: { 'content-type': 'application/json' },
+          }),
+      })
+    );
+
+    expect(error).toBeInstanceOf(ServerError);
+  });
+});
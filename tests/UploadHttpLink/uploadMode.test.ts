@@ -0,0 +1,91 @@
+import { firstValueFrom } from 'rxjs';
+import {
+  ApolloClient,
+  type ApolloLink,
+  execute,
+  gql,
+  InMemoryCache,
+} from '@apollo/client';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink uploadMode', () => {
+  const query = gql`
+    mutation Upload($small: Upload, $large: Upload) {
+      upload(small: $small, large: $large)
+    }
+  `;
+
+  function setup(options: ConstructorParameters<typeof UploadHttpLink>[0]) {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { upload: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink({ ...options, fetch });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const run = (
+      variables: Record<string, unknown>,
+      context?: Record<string, unknown>
+    ) =>
+      firstValueFrom(execute(link, { query, variables, context }, { client }));
+
+    return { fetch, run };
+  }
+
+  it('should send operations without files as multipart in the multipart mode', async () => {
+    const { fetch, run } = setup({ uploadMode: 'multipart' });
+
+    await run({});
+
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(body).toBeInstanceOf(FormData);
+    expect(body.get('map')).toBe('{}');
+    expect(JSON.parse(body.get('operations') as string)).toMatchObject({
+      operationName: 'Upload',
+      variables: {},
+    });
+  });
+
+  it('should inline small files as data URLs in the json-inline mode', async () => {
+    const { fetch, run } = setup({ inlineMaxFileSize: 4 });
+
+    await run(
+      {
+        small: new Blob(['abc'], { type: 'text/plain' }),
+        large: new File(['abcde'], 'large.txt'),
+      },
+      { upload: { uploadMode: 'json-inline' } }
+    );
+
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(JSON.parse(body.get('operations') as string)).toMatchObject({
+      variables: { small: 'data:text/plain;base64,YWJj', large: null },
+    });
+    expect(body.get('map')).toBe('{"1":["variables.large"]}');
+
+    await run(
+      { small: new Blob(['abc'], { type: 'text/plain' }) },
+      { upload: { uploadMode: 'json-inline' } }
+    );
+
+    expect(JSON.parse(fetch.mock.calls[1][1]!.body as string)).toMatchObject({
+      variables: { small: 'data:text/plain;base64,YWJj' },
+    });
+  });
+
+  it('should route by shouldUseMultipart in the auto mode', async () => {
+    const shouldUseMultipart = vi.fn(
+      (_operation: ApolloLink.Operation, files: Map<unknown, Array<string>>) =>
+        files.size > 1
+    );
+    const { fetch, run } = setup({ shouldUseMultipart });
+
+    await run({ small: new Blob(['abc']) });
+
+    expect(shouldUseMultipart).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetch.mock.calls[0][1]!.body as string)).toMatchObject({
+      variables: { small: 'data:application/octet-stream;base64,YWJj' },
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { firstValueFrom } from 'rxjs';
+import {
+  ApolloClient,
+  type ApolloLink,
+  execute,
+  gql,
+  InMemoryCache,
+} from '@apollo/client';
+import { UploadAbortedError } from '../../src/UploadHttpLink/errors.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+import {
+  createUploadProgressReporter,
+  type UploadProgressEvent,
+} from '../../src/UploadHttpLink/uploadProgress.js';
+import { createFileEntries } from '../../src/UploadHttpLink/utils.js';
+
+describe('createUploadProgressReporter', () => {
+  const operation = { operationName: 'Upload' } as ApolloLink.Operation;
+  const fileEntries = createFileEntries(
+    new Map([
+      [new Blob(['a'.repeat(10)]), ['variables.a']],
+      [new Blob(['b'.repeat(20)]), ['variables.b.0', 'variables.b.1']],
+    ])
+  );
+
+  it('should estimate per file progress from body progress', () => {
+    const events: Array<UploadProgressEvent> = [];
+    const reporter = createUploadProgressReporter(operation, fileEntries, [
+      (event) => events.push(event),
+    ]);
+
+    reporter.report({ loaded: 15, total: 40 });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].operation).toBe(operation);
+    expect(events[0].loaded).toBe(15);
+    expect(events[0].total).toBe(40);
+    expect(events[0].files).toEqual([
+      { fieldName: '1', paths: ['variables.a'], loaded: 5, total: 10 },
+      {
+        fieldName: '2',
+        paths: ['variables.b.0', 'variables.b.1'],
+        loaded: 0,
+        total: 20,
+      },
+    ]);
+  });
+
+  it('should report completion when the transport reported nothing', () => {
+    const events: Array<UploadProgressEvent> = [];
+    const reporter = createUploadProgressReporter(operation, fileEntries, [
+      (event) => events.push(event),
+    ]);
+
+    reporter.complete();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].loaded).toBe(30);
+    expect(events[0].files.map(({ loaded }) => loaded)).toEqual([10, 20]);
+  });
+
+  it('should not report completion twice', () => {
+    const handler = vi.fn();
+    const reporter = createUploadProgressReporter(operation, fileEntries, [
+      handler,
+    ]);
+
+    reporter.report({ loaded: 40, total: 40 });
+    reporter.complete();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UploadHttpLink upload progress', () => {
+  const query = gql`
+    mutation Upload($a: Upload!, $b: Upload!) {
+      upload(a: $a, b: $b)
+    }
+  `;
+
+  /**
+   * A stub `XMLHttpRequest` recording each request, which the test makes
+   * report progress and respond.
+   */
+  class StubXMLHttpRequest {
+    static requests: Array<StubXMLHttpRequest> = [];
+
+    upload: { onprogress: ((event: ProgressEvent) => void) | null } = {
+      onprogress: null,
+    };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    ontimeout: (() => void) | null = null;
+    withCredentials = false;
+    status = 0;
+    statusText = '';
+    responseText = '';
+    method?: string;
+    uri?: string;
+    headers: Record<string, string> = {};
+    body?: unknown;
+    aborted = false;
+
+    open(method: string, uri: string) {
+      this.method = method;
+      this.uri = uri;
+    }
+
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+
+    getAllResponseHeaders() {
+      return 'content-type: application/json\r\n';
+    }
+
+    send(body: unknown) {
+      this.body = body;
+      StubXMLHttpRequest.requests.push(this);
+    }
+
+    abort() {
+      this.aborted = true;
+    }
+
+    progress(loaded: number, total: number) {
+      this.upload.onprogress?.({
+        loaded,
+        total,
+        lengthComputable: true,
+      } as ProgressEvent);
+    }
+
+    respond(result: unknown) {
+      this.status = 200;
+      this.responseText = JSON.stringify(result);
+      this.onload?.();
+    }
+  }
+
+  const fetch = vi.fn();
+
+  beforeEach(() => {
+    StubXMLHttpRequest.requests = [];
+    fetch.mockReset();
+    vi.stubGlobal('XMLHttpRequest', StubXMLHttpRequest);
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function run(link: UploadHttpLink, context?: Record<string, unknown>) {
+    return firstValueFrom(
+      execute(
+        link,
+        {
+          query,
+          variables: {
+            a: new File(['a'.repeat(10)], 'a.txt'),
+            b: new File(['b'.repeat(20)], 'b.txt'),
+          },
+          context,
+        },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+  }
+
+  async function nextRequest() {
+    await vi.waitFor(() =>
+      expect(StubXMLHttpRequest.requests).not.toHaveLength(0)
+    );
+    return StubXMLHttpRequest.requests.shift()!;
+  }
+
+  it('should report progress through XMLHttpRequest to the link and context handlers', async () => {
+    const linkEvents: Array<UploadProgressEvent> = [];
+    const contextEvents: Array<UploadProgressEvent> = [];
+    const link = new UploadHttpLink({
+      uri: '/graphql',
+      headers: { 'x-client': 'web' },
+      onUploadProgress: (event) => linkEvents.push(event),
+    });
+
+    const result = run(link, {
+      upload: {
+        onUploadProgress: (event: UploadProgressEvent) => {
+          contextEvents.push(event);
+        },
+      },
+    });
+    const xhr = await nextRequest();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(xhr.method).toBe('POST');
+    expect(xhr.uri).toBe('/graphql');
+    expect(xhr.headers).toMatchObject({ 'x-client': 'web' });
+    expect(xhr.body).toBeInstanceOf(FormData);
+
+    const total = 100;
+    xhr.progress(80, total);
+    xhr.progress(total, total);
+    xhr.respond({ data: { upload: true } });
+
+    await expect(result).resolves.toEqual({ data: { upload: true } });
+    expect(contextEvents).toEqual(linkEvents);
+    expect(linkEvents.map(({ loaded }) => loaded)).toEqual([80, total]);
+
+    const [partial, complete] = linkEvents;
+    expect(partial.files).toEqual([
+      { fieldName: '1', paths: ['variables.a'], loaded: 10, total: 10 },
+      { fieldName: '2', paths: ['variables.b'], loaded: 0, total: 20 },
+    ]);
+    expect(complete.files.map(({ loaded }) => loaded)).toEqual([10, 20]);
+  });
+
+  it('should keep the fetch transport without progress handlers or with a fetch option', async () => {
+    const respond = async () =>
+      new Response(JSON.stringify({ data: { upload: true } }), {
+        headers: { 'content-type': 'application/json' },
+      });
+    fetch.mockImplementation(respond);
+    const preferredFetch = vi.fn(respond);
+    const onUploadProgress = vi.fn();
+
+    await run(new UploadHttpLink());
+    await run(new UploadHttpLink({ fetch: preferredFetch, onUploadProgress }));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(preferredFetch).toHaveBeenCalledTimes(1);
+    expect(StubXMLHttpRequest.requests).toHaveLength(0);
+    // Without transport progress, completion is reported once it responds.
+    expect(onUploadProgress).toHaveBeenCalledTimes(1);
+    expect(onUploadProgress.mock.calls[0][0]).toMatchObject({
+      files: [{ loaded: 10 }, { loaded: 20 }],
+    });
+  });
+
+  it('should abort the XMLHttpRequest with the progress so far', async () => {
+    const controller = new AbortController();
+    const link = new UploadHttpLink({ onUploadProgress: vi.fn() });
+
+    const result = run(link, {
+      fetchOptions: { signal: controller.signal },
+    }).catch((error: unknown) => error);
+    const xhr = await nextRequest();
+    xhr.progress(40, 100);
+    controller.abort();
+
+    const error = await result;
+    expect(xhr.aborted).toBe(true);
+    expect(error).toBeInstanceOf(UploadAbortedError);
+    expect((error as UploadAbortedError).progress).toEqual({
+      loaded: 40,
+      total: 100,
+    });
+  });
+});
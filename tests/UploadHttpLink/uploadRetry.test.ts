@@ -0,0 +1,89 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('UploadHttpLink retry', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file)
+    }
+  `;
+
+  function run(link: UploadHttpLink) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(
+      execute(
+        link,
+        { query, variables: { file: new File(['a'], 'a.txt') } },
+        { client }
+      )
+    );
+  }
+
+  function respond(status: number) {
+    return new Response(JSON.stringify({ data: { upload: status } }), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  it('should retry retryable statuses with a rebuilt form', async () => {
+    const bodies: Array<FormData> = [];
+    const fetch = vi.fn(async (_uri: RequestInfo | URL, init?: RequestInit) => {
+      bodies.push(init!.body as FormData);
+      return respond(bodies.length < 3 ? 503 : 200);
+    });
+    const link = new UploadHttpLink({
+      fetch,
+      retry: { initialDelay: 0 },
+    });
+
+    await expect(run(link)).resolves.toEqual({ data: { upload: 200 } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(new Set(bodies).size).toBe(3);
+    bodies.forEach((body) => {
+      expect((body.get('1') as File).name).toBe('a.txt');
+    });
+  });
+
+  it('should not retry statuses that are not retryable', async () => {
+    const fetch = vi.fn(async () => respond(400));
+    const link = new UploadHttpLink({ fetch, retry: { initialDelay: 0 } });
+
+    await expect(run(link)).rejects.toThrow('Received status code 400');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let shouldRetry decide', async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError('Network request failed');
+    });
+    const shouldRetry = vi.fn(
+      (_error: unknown, attempt: number) => attempt < 2
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      retry: { initialDelay: 0, maxAttempts: 5, shouldRetry },
+    });
+
+    await expect(run(link)).rejects.toThrow('Network request failed');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never retry an aborted operation', async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn(async () => {
+      controller.abort();
+      throw new TypeError('Network request failed');
+    });
+    const link = new UploadHttpLink({
+      fetch,
+      fetchOptions: { signal: controller.signal },
+      retry: { initialDelay: 0 },
+    });
+
+    await expect(run(link)).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+import { UploadScheduler } from '../../src/UploadHttpLink/uploadScheduler.js';
+
+describe('UploadHttpLink scheduler', () => {
+  const query = gql`
+    mutation Upload($file: Upload!) {
+      upload(file: $file)
+    }
+  `;
+
+  function setup(scheduler: UploadScheduler) {
+    const names: Array<string> = [];
+    const responses: Array<() => void> = [];
+    const fetch = vi.fn(
+      (_uri: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((resolve) => {
+          const { name } = (init!.body as FormData).get('1') as File;
+          names.push(name);
+          responses.push(() =>
+            resolve(
+              new Response(JSON.stringify({ data: { upload: name } }), {
+                headers: { 'content-type': 'application/json' },
+              })
+            )
+          );
+        })
+    );
+    const link = new UploadHttpLink({ fetch, scheduler });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const execute$ = (name: string, size = 1, priority?: number) =>
+      execute(
+        link,
+        {
+          query,
+          variables: { file: new File(['a'.repeat(size)], name) },
+          context: { upload: { priority } },
+        },
+        { client }
+      );
+
+    return { names, responses, execute$ };
+  }
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  it('should limit concurrent uploads and start queued ones by priority', async () => {
+    const scheduler = new UploadScheduler({ maxConcurrent: 1 });
+    const { names, responses, execute$ } = setup(scheduler);
+
+    const results = Promise.all([
+      firstValueFrom(execute$('a.txt')),
+      firstValueFrom(execute$('b.txt')),
+      firstValueFrom(execute$('c.txt', 1, 1)),
+    ]);
+    await flush();
+
+    expect(names).toEqual(['a.txt']);
+    expect(scheduler.queued).toBe(2);
+
+    for (let i = 0; i < 3; i++) {
+      responses[i]();
+      await flush();
+    }
+
+    expect(names).toEqual(['a.txt', 'c.txt', 'b.txt']);
+    await expect(results).resolves.toEqual([
+      { data: { upload: 'a.txt' } },
+      { data: { upload: 'b.txt' } },
+      { data: { upload: 'c.txt' } },
+    ]);
+    expect(scheduler.active).toBe(0);
+  });
+
+  it('should limit the bytes in flight', async () => {
+    const scheduler = new UploadScheduler({
+      maxConcurrent: 10,
+      maxBytesInFlight: 5,
+    });
+    const { names, responses, execute$ } = setup(scheduler);
+
+    const results = Promise.all([
+      firstValueFrom(execute$('a.txt', 3)),
+      firstValueFrom(execute$('b.txt', 2)),
+      firstValueFrom(execute$('c.txt', 8)),
+    ]);
+    await flush();
+
+    expect(names).toEqual(['a.txt', 'b.txt']);
+
+    responses[0]();
+    await flush();
+
+    expect(names).toEqual(['a.txt', 'b.txt']);
+
+    responses[1]();
+    await flush();
+
+    // Larger than the limit, so it starts once nothing else is uploading.
+    expect(names).toEqual(['a.txt', 'b.txt', 'c.txt']);
+
+    responses[2]();
+    await results;
+  });
+
+  it('should never start the request of a queued operation that is unsubscribed', async () => {
+    const scheduler = new UploadScheduler({ maxConcurrent: 1 });
+    const { names, responses, execute$ } = setup(scheduler);
+
+    const result = firstValueFrom(execute$('a.txt'));
+    const subscription = execute$('b.txt').subscribe({});
+    await flush();
+
+    subscription.unsubscribe();
+    await flush();
+
+    expect(scheduler.queued).toBe(0);
+
+    responses[0]();
+    await result;
+    await flush();
+
+    expect(names).toEqual(['a.txt']);
+  });
+});
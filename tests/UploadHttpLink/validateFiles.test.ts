@@ -0,0 +1,93 @@
+import { UploadValidationError } from '../../src/UploadHttpLink/errors.js';
+import {
+  matchObjectPath,
+  validateFiles,
+} from '../../src/UploadHttpLink/validateFiles.js';
+
+describe('matchObjectPath', () => {
+  it('should match exact paths and wildcards', () => {
+    expect(matchObjectPath('variables.avatar', 'variables.avatar')).toBe(true);
+    expect(matchObjectPath('variables.files.*', 'variables.files.0')).toBe(
+      true
+    );
+    expect(matchObjectPath('variables.files.*', 'variables.files')).toBe(false);
+    expect(matchObjectPath('variables.**', 'variables.a.b.0')).toBe(true);
+    expect(matchObjectPath('**.avatar', 'variables.input.avatar')).toBe(true);
+    expect(matchObjectPath('variables.*', 'variables.input.avatar')).toBe(
+      false
+    );
+  });
+});
+
+describe('validateFiles', () => {
+  const avatar = new File(['a'.repeat(50)], 'avatar.exe', {
+    type: 'application/octet-stream',
+  });
+  const attachments = Array.from(
+    { length: 3 },
+    (_, index) => new File(['b'], `${index}.png`, { type: 'image/png' })
+  );
+  const files = new Map<File, Array<string>>([
+    [avatar, ['variables.input.avatar']],
+    ...attachments.map((file, index): [File, Array<string>] => [
+      file,
+      [`variables.attachments.${index}`],
+    ]),
+  ]);
+
+  it('should pass files satisfying the rules', () => {
+    expect(() =>
+      validateFiles(files, [
+        { maxFileSize: 100, maxTotalSize: 100, maxFiles: 4 },
+        { paths: 'variables.attachments.*', accept: ['image/*'] },
+      ])
+    ).not.toThrow();
+  });
+
+  it('should list every violation', () => {
+    let error: unknown;
+    try {
+      validateFiles(files, [
+        {
+          paths: 'variables.input.avatar',
+          maxFileSize: 10,
+          accept: ['image/png', '.jpg'],
+        },
+        { paths: 'variables.attachments.*', maxFiles: 2, maxTotalSize: 2 },
+        {
+          paths: 'variables.attachments.*',
+          validate: (file) =>
+            file.name === '1.png' ? 'Name is taken.' : undefined,
+        },
+      ]);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(UploadValidationError.is(error)).toBe(true);
+    const { violations } = error as UploadValidationError;
+    expect(violations.map(({ check }) => check)).toEqual([
+      'maxFileSize',
+      'accept',
+      'maxTotalSize',
+      'maxFiles',
+      'validate',
+    ]);
+    expect(violations[0].files).toEqual([
+      {
+        name: 'avatar.exe',
+        size: 50,
+        type: 'application/octet-stream',
+        paths: ['variables.input.avatar'],
+      },
+    ]);
+    expect(violations[3].files.map(({ paths }) => paths)).toEqual([
+      ['variables.attachments.0'],
+      ['variables.attachments.1'],
+      ['variables.attachments.2'],
+    ]);
+    expect(violations[4].message).toBe(
+      '`1.png` at `variables.attachments.1`: Name is taken.'
+    );
+  });
+});
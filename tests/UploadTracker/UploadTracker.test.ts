@@ -0,0 +1,129 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { UploadAbortedError } from '../../src/UploadHttpLink/errors.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+import {
+  type TrackedUpload,
+  UploadTracker,
+} from '../../src/UploadTracker/UploadTracker.js';
+
+describe('UploadTracker', () => {
+  const query = gql`
+    mutation UploadAvatar($file: Upload!, $thumbnail: Upload!) {
+      uploadAvatar(file: $file, thumbnail: $thumbnail)
+    }
+  `;
+
+  const run = (link: UploadHttpLink) =>
+    firstValueFrom(
+      execute(
+        link,
+        {
+          query,
+          variables: {
+            file: new File(['avatar'], 'avatar.png', { type: 'image/png' }),
+            thumbnail: new Blob(['thumb']),
+          },
+        },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+
+  it('should track the status and progress of each file', async () => {
+    const tracker = new UploadTracker();
+    const statuses: Array<Array<string>> = [];
+    tracker.subscribe((uploads) => {
+      statuses.push(uploads.map(({ status }) => status));
+    });
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { uploadAvatar: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+
+    await run(new UploadHttpLink({ fetch, tracker }));
+
+    expect(statuses[0]).toEqual(['queued', 'queued']);
+    expect(statuses).toContainEqual(['uploading', 'uploading']);
+    expect(tracker.getUploads()).toEqual<Array<TrackedUpload>>([
+      {
+        operationId: 1,
+        operationName: 'UploadAvatar',
+        paths: ['variables.file'],
+        name: 'avatar.png',
+        type: 'image/png',
+        size: 6,
+        status: 'succeeded',
+        loaded: 6,
+        total: 6,
+      },
+      {
+        operationId: 1,
+        operationName: 'UploadAvatar',
+        paths: ['variables.thumbnail'],
+        size: 5,
+        status: 'succeeded',
+        loaded: 5,
+        total: 5,
+      },
+    ]);
+    expect(tracker.getUploads({ path: 'variables.thumbnail' })).toHaveLength(1);
+
+    tracker.clear({ operationName: 'UploadAvatar' });
+
+    expect(tracker.getUploads()).toEqual([]);
+  });
+
+  it('should drop a file cancelled before its request starts', async () => {
+    const tracker = new UploadTracker();
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { uploadAvatar: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      tracker,
+      transformFile: (_file, { paths }) => {
+        if (paths[0] === 'variables.file') {
+          tracker.cancel({ path: 'variables.thumbnail' });
+        }
+      },
+    });
+
+    await expect(run(link)).resolves.toEqual({ data: { uploadAvatar: true } });
+
+    const body = fetch.mock.calls[0][1]!.body as FormData;
+    expect(body.get('map')).toBe('{"1":["variables.file"]}');
+    expect(tracker.getUploads().map(({ status }) => status)).toEqual([
+      'succeeded',
+      'cancelled',
+    ]);
+  });
+
+  it('should cancel the operation of a file once its request started', async () => {
+    const tracker = new UploadTracker();
+    const fetch = vi.fn(
+      (_uri: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init!.signal!.addEventListener('abort', () =>
+            reject(init!.signal!.reason)
+          );
+          tracker.cancel({
+            operationName: 'UploadAvatar',
+            path: 'variables.thumbnail',
+          });
+        })
+    );
+
+    await expect(
+      run(new UploadHttpLink({ fetch, tracker }))
+    ).rejects.toBeInstanceOf(UploadAbortedError);
+    expect(tracker.getUploads().map(({ status }) => status)).toEqual([
+      'cancelled',
+      'cancelled',
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { MultipartRequestError } from '../../src/extractFiles/errors.js';
+import { extractFiles } from '../../src/extractFiles/extractFiles.js';
+import {
+  insertFiles,
+  resolveObjectPath,
+} from '../../src/extractFiles/insertFiles.js';
+import { isExtractableFile } from '../../src/extractFiles/isExtractableFile.js';
+import { parseMultipartRequest } from '../../src/extractFiles/parseMultipartRequest.js';
+
+describe('parseMultipartRequest', () => {
+  function createRequest(fields: Record<string, string | Blob>) {
+    const form = new FormData();
+    Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+    return new Request('http://localhost/graphql', {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  it('should insert the files at their object paths', async () => {
+    const { operations, files } = await parseMultipartRequest(
+      createRequest({
+        operations: JSON.stringify({
+          query: 'mutation ($files: [Upload!]!) { upload(files: $files) }',
+          variables: { files: [null, null] },
+        }),
+        map: JSON.stringify({
+          1: ['variables.files.0'],
+          2: ['variables.files.1'],
+        }),
+        1: new File(['1'], '1.txt'),
+        2: new File(['2'], '2.txt'),
+      })
+    );
+
+    const [file1, file2] = resolveObjectPath(
+      operations,
+      'variables.files'
+    ) as Array<File>;
+    expect(file1.name).toBe('1.txt');
+    expect(file2.name).toBe('2.txt');
+    expect(files.get('1')).toBe(file1);
+  });
+
+  it('should reject requests that do not follow the spec', async () => {
+    const operations = JSON.stringify({ variables: { file: null } });
+    const file = new File(['1'], '1.txt');
+
+    await expect(
+      parseMultipartRequest(
+        new Request('http://localhost/graphql', { method: 'POST', body: '{}' })
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    await expect(
+      parseMultipartRequest(createRequest({ operations: '"query"', map: '{}' }))
+    ).rejects.toMatchObject({ code: 'INVALID_OPERATIONS' });
+    await expect(
+      parseMultipartRequest(createRequest({ operations, map: '{"1":[]}' }))
+    ).rejects.toMatchObject({ code: 'INVALID_MAP' });
+    await expect(
+      parseMultipartRequest(
+        createRequest({ operations, map: '{"1":["variables.file"]}' })
+      )
+    ).rejects.toMatchObject({ code: 'MISSING_FILE' });
+    await expect(
+      parseMultipartRequest(
+        createRequest({ operations, map: '{"1":["variables.other"]}', 1: file })
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_PATH' });
+  });
+
+  it('should reject empty object paths', async () => {
+    await expect(
+      parseMultipartRequest(
+        createRequest({
+          operations: JSON.stringify({ variables: { file: null } }),
+          map: JSON.stringify({ 1: ['variables.file', ''] }),
+          1: new File(['1'], '1.txt'),
+        })
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_PATH', fieldName: '1', path: '' });
+  });
+});
+
+describe('insertFiles', () => {
+  it('should reverse extractFiles', () => {
+    const file = new File(['1'], '1.txt');
+    const value = { a: file, b: [{ c: file }] };
+    const { clone, files } = extractFiles(value, isExtractableFile);
+
+    const filesByPath: Record<string, unknown> = {};
+    files.forEach((paths, file) => {
+      paths.forEach((path) => {
+        filesByPath[path] = file;
+      });
+    });
+
+    expect(insertFiles(clone, filesByPath)).toEqual(value);
+  });
+
+  it('should insert nothing if an object path doesn’t exist', () => {
+    const tree = { a: null, b: null };
+
+    expect(() =>
+      insertFiles(
+        tree,
+        new Map([
+          ['a', new File(['1'], '1.txt')],
+          ['b.c', new File(['2'], '2.txt')],
+        ])
+      )
+    ).toThrow('Object path `b.c` doesn’t exist.');
+    expect(tree).toEqual({ a: null, b: null });
+  });
+
+  it('should not resolve inherited properties', () => {
+    expect(() =>
+      insertFiles({}, new Map([['__proto__.polluted', true]]))
+    ).toThrow(MultipartRequestError);
+    expect(() => resolveObjectPath({}, 'constructor')).toThrow(
+      'Object path `constructor` doesn’t exist.'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { extractFiles } from '../../src/extractFiles/extractFiles.js';
+import { isExtractableFile } from '../../src/extractFiles/isExtractableFile.js';
+import {
+  builtInTraversalHandlers,
+  type TraversalHandler,
+} from '../../src/extractFiles/traversalHandlers.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('extractFiles traversal handlers', () => {
+  const file1 = new File(['1'], '1.txt');
+  const file2 = new File(['2'], '2.txt');
+
+  it('should extract files from Map and Set instances and toJSON results', () => {
+    const input = {
+      toJSON: () => ({ photo: file2, taken: new Date(0) }),
+    };
+    const { clone, files } = extractFiles(
+      {
+        map: new Map<unknown, unknown>([
+          ['a', file1],
+          [1, new Set([file2])],
+        ]),
+        input,
+      },
+      isExtractableFile,
+      'variables',
+      builtInTraversalHandlers
+    );
+
+    expect(clone).toEqual({
+      map: { a: null, 1: [null] },
+      input: { photo: null, taken: '1970-01-01T00:00:00.000Z' },
+    });
+    expect(files).toEqual(
+      new Map([
+        [file1, ['variables.map.a']],
+        [file2, ['variables.map.1.0', 'variables.input.photo']],
+      ])
+    );
+  });
+
+  it('should use custom handlers for class instances', () => {
+    class PhotoInput {
+      constructor(
+        readonly caption: string,
+        readonly file: File
+      ) {}
+    }
+
+    const photoInput: TraversalHandler<PhotoInput> = {
+      matches: (value): value is PhotoInput => value instanceof PhotoInput,
+      toTraversable: (input) => ({ ...input }),
+    };
+
+    const { clone, files } = extractFiles(
+      [new PhotoInput('Sunset', file1)],
+      isExtractableFile,
+      '',
+      [...builtInTraversalHandlers, photoInput]
+    );
+
+    expect(clone).toEqual([{ caption: 'Sunset', file: null }]);
+    expect(files).toEqual(new Map([[file1, ['0.file']]]));
+  });
+
+  it('should reuse clones of shared and circular containers', () => {
+    const set = new Set<unknown>([file1]);
+    const map = new Map<string, unknown>([['set', set]]);
+    map.set('self', map);
+
+    const { clone, files } = extractFiles(
+      { a: map, b: set },
+      isExtractableFile,
+      '',
+      builtInTraversalHandlers
+    );
+
+    const { a, b } = clone as {
+      a: Record<string, unknown>;
+      b: Array<unknown>;
+    };
+    expect(a.set).toBe(b);
+    expect(a.self).toBe(a);
+    expect(b).toEqual([null]);
+    expect(files).toEqual(new Map([[file1, ['a.set.0', 'b.0']]]));
+  });
+
+  it('should send replaced values the same with or without files', async () => {
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { upload: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink({
+      fetch,
+      traversalHandlers: builtInTraversalHandlers,
+    });
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    const query = gql`
+      mutation Upload($files: Files!) {
+        upload(files: $files)
+      }
+    `;
+    const run = (file: unknown) =>
+      firstValueFrom(
+        execute(
+          link,
+          { query, variables: { files: new Map([['a', file]]) } },
+          { client }
+        )
+      );
+
+    await run(file1);
+    await run('key');
+
+    const form = fetch.mock.calls[0][1]!.body as FormData;
+    expect(JSON.parse(form.get('operations') as string).variables).toEqual({
+      files: { a: null },
+    });
+    expect(
+      JSON.parse(fetch.mock.calls[1][1]!.body as string).variables
+    ).toEqual({ files: { a: 'key' } });
+  });
+
+  it('should leave containers as is by default', () => {
+    const map = new Map([['a', file1]]);
+    const { clone, files } = extractFiles({ map }, isExtractableFile);
+
+    expect((clone as { map: unknown }).map).toBe(map);
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { createReadStream } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { extractFiles } from '../../src/extractFiles/extractFiles.js';
+import {
+  fileFromPath,
+  fileFromReadable,
+  isNodeExtractableFile,
+  type NodeExtractableFile,
+} from '../../src/node/nodeFile.js';
+import { nodeFormDataAppendFile } from '../../src/node/nodeFormDataAppendFile.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('Node.js files', () => {
+  let directory: string;
+  let path: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'apollo-upload-client-'));
+    path = join(directory, 'report.txt');
+    await writeFile(path, 'from disk');
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should match Node.js files, but not plain objects', () => {
+    const pathFile = fileFromPath(path);
+    const readStream = createReadStream(path);
+    const readableFile = fileFromReadable(Readable.from(['a']));
+
+    const { clone, files } = extractFiles(
+      {
+        a: pathFile,
+        b: readStream,
+        c: readableFile,
+        d: new Blob(['d']),
+        e: { path, name: 'report.txt' },
+      },
+      isNodeExtractableFile
+    );
+    readStream.destroy();
+
+    expect(clone).toEqual({
+      a: null,
+      b: null,
+      c: null,
+      d: null,
+      e: { path, name: 'report.txt' },
+    });
+    expect(Array.from(files.values())).toEqual([['a'], ['b'], ['c'], ['d']]);
+    expect(pathFile).toMatchObject({ name: 'report.txt', size: 9 });
+  });
+
+  it('should stream Node.js files into the multipart request', async () => {
+    let body = '';
+    const fetch = vi.fn(async (uri: RequestInfo | URL, init?: RequestInit) => {
+      body = await new Request(uri, init).text();
+      return new Response(JSON.stringify({ data: { upload: true } }), {
+        headers: { 'content-type': 'application/json' },
+      });
+    });
+    const link = new UploadHttpLink<NodeExtractableFile>({
+      uri: 'http://localhost/graphql',
+      fetch,
+      isExtractableFile: isNodeExtractableFile,
+      formDataAppendFile: nodeFormDataAppendFile,
+    });
+
+    await firstValueFrom(
+      execute(
+        link,
+        {
+          query: gql`
+            mutation Upload($files: [Upload!]!) {
+              upload(files: $files)
+            }
+          `,
+          variables: {
+            files: [
+              fileFromPath(path, { type: 'text/plain' }),
+              createReadStream(path),
+              fileFromReadable(Readable.from([Buffer.from('from stream')]), {
+                name: 'stream.txt',
+              }),
+            ],
+          },
+        },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+
+    expect(body).toContain(
+      'Content-Disposition: form-data; name="1"; filename="report.txt"\r\nContent-Type: text/plain\r\n\r\nfrom disk\r\n'
+    );
+    expect(body).toContain(
+      'Content-Disposition: form-data; name="2"; filename="report.txt"\r\nContent-Type: application/octet-stream\r\n\r\nfrom disk\r\n'
+    );
+    expect(body).toContain(
+      'Content-Disposition: form-data; name="3"; filename="stream.txt"\r\nContent-Type: application/octet-stream\r\n\r\nfrom stream\r\n'
+    );
+  });
+
+  it('should reject sending a stream again, but read a path again', async () => {
+    const bodies: Array<string> = [];
+    const fetch = vi.fn(async (uri: RequestInfo | URL, init?: RequestInit) => {
+      bodies.push(await new Request(uri, init).text());
+      return new Response(null, { status: 503 });
+    });
+    const link = new UploadHttpLink<NodeExtractableFile>({
+      uri: 'http://localhost/graphql',
+      fetch,
+      isExtractableFile: isNodeExtractableFile,
+      formDataAppendFile: nodeFormDataAppendFile,
+      retry: { maxAttempts: 2, initialDelay: 0, jitter: false },
+    });
+    const upload = (file: NodeExtractableFile) =>
+      firstValueFrom(
+        execute(
+          link,
+          {
+            query: gql`
+              mutation Upload($file: Upload!) {
+                upload(file: $file)
+              }
+            `,
+            variables: { file },
+          },
+          { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+        )
+      );
+
+    await expect(
+      upload(
+        fileFromReadable(Readable.from([Buffer.from('a')]), {
+          name: 'stream.txt',
+        })
+      )
+    ).rejects.toThrow(
+      'The stream of file `stream.txt` was already read, so it can’t be uploaded again.'
+    );
+    expect(bodies).toHaveLength(1);
+
+    bodies.length = 0;
+    await expect(upload(fileFromPath(path))).rejects.toMatchObject({
+      statusCode: 503,
+    });
+    expect(bodies).toHaveLength(2);
+    expect(bodies[1]).toContain('from disk');
+  });
+});
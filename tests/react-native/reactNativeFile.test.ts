@@ -0,0 +1,88 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { extractFiles } from '../../src/extractFiles/extractFiles.js';
+import { formDataAppendFileRN } from '../../src/react-native/formDataAppendFileRN.js';
+import {
+  type ExtractableFileRN,
+  isExtractableFileRN,
+} from '../../src/react-native/reactNativeFile.js';
+import { UploadHttpLink } from '../../src/UploadHttpLink/UploadHttpLink.js';
+
+describe('React Native files', () => {
+  const photo = {
+    uri: 'file:///photo.jpg',
+    name: 'photo.jpg',
+    type: 'image/jpeg',
+  };
+
+  it('should match React Native files and blobs, but not plain objects', () => {
+    const blob = new Blob(['b']);
+
+    const { clone, files } = extractFiles(
+      { a: photo, b: blob, c: { uri: 'https://example.com', name: 'link' } },
+      isExtractableFileRN
+    );
+
+    expect(clone).toEqual({
+      a: null,
+      b: null,
+      c: { uri: 'https://example.com', name: 'link' },
+    });
+    expect(files).toEqual(
+      new Map<unknown, Array<string>>([
+        [photo, ['a']],
+        [blob, ['b']],
+      ])
+    );
+  });
+
+  it('should append React Native files to the multipart request', async () => {
+    const appended: Array<[string, unknown, string | undefined]> = [];
+    // Records the appended values, as the React Native `FormData` accepts
+    // descriptors while the Node.js one doesn’t.
+    class ReactNativeFormData {
+      append(name: string, value: unknown, fileName?: string) {
+        appended.push([name, value, fileName]);
+      }
+    }
+    const fetch = vi.fn(
+      async (_uri: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ data: { upload: true } }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const link = new UploadHttpLink<ExtractableFileRN>({
+      fetch,
+      FormData: ReactNativeFormData as unknown as typeof FormData,
+      isExtractableFile: isExtractableFileRN,
+      formDataAppendFile: formDataAppendFileRN,
+    });
+    const file = new File(['a'], 'a.txt');
+
+    await firstValueFrom(
+      execute(
+        link,
+        {
+          query: gql`
+            mutation Upload($files: [Upload!]!) {
+              upload(files: $files)
+            }
+          `,
+          variables: { files: [photo, file] },
+        },
+        { client: new ApolloClient({ cache: new InMemoryCache(), link }) }
+      )
+    );
+
+    expect(appended).toEqual([
+      ['operations', expect.stringContaining('"files":[null,null]'), undefined],
+      [
+        'map',
+        '{"1":["variables.files.0"],"2":["variables.files.1"]}',
+        undefined,
+      ],
+      ['1', photo, undefined],
+      ['2', file, 'a.txt'],
+    ]);
+  });
+});
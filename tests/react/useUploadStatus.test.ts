@@ -0,0 +1,115 @@
+// @vitest-environment happy-dom
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { ApolloLink } from '@apollo/client';
+import {
+  type UploadStatusResult,
+  useUploadStatus,
+} from '../../src/react/useUploadStatus.js';
+import {
+  type UploadFilter,
+  UploadTracker,
+} from '../../src/UploadTracker/UploadTracker.js';
+
+describe('useUploadStatus', () => {
+  beforeAll(() => {
+    vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function render(tracker: UploadTracker, filter?: UploadFilter) {
+    const results: Array<UploadStatusResult> = [];
+    const UploadStatus = () => {
+      results.push(useUploadStatus(tracker, filter));
+      return null;
+    };
+    const root = createRoot(document.createElement('div'));
+    act(() => root.render(createElement(UploadStatus)));
+
+    return {
+      results,
+      latest: () => results[results.length - 1],
+      unmount: () => act(() => root.unmount()),
+    };
+  }
+
+  const operation = { operationName: 'UploadAvatar' } as ApolloLink.Operation;
+
+  const track = (tracker: UploadTracker, operationName: string) =>
+    tracker.track(
+      { operationName } as ApolloLink.Operation,
+      new Map([[new File(['avatar'], 'avatar.png'), ['variables.file']]]),
+      vi.fn()
+    );
+
+  it('should re-render with the status of the matching uploads', () => {
+    const tracker = new UploadTracker();
+    const { latest } = render(tracker, { operationName: 'UploadAvatar' });
+
+    expect(latest()).toMatchObject({ uploads: [], inFlight: false });
+
+    let tracking!: ReturnType<typeof track>;
+    act(() => {
+      tracking = track(tracker, 'UploadAvatar');
+      track(tracker, 'UploadDocument');
+    });
+    expect(latest()).toMatchObject({
+      uploads: [{ operationName: 'UploadAvatar', status: 'queued' }],
+      loaded: 0,
+      total: 6,
+      inFlight: true,
+    });
+
+    act(() => {
+      tracking.progress({
+        loaded: 3,
+        total: 6,
+        operation,
+        files: [
+          { fieldName: '1', paths: ['variables.file'], loaded: 3, total: 6 },
+        ],
+      });
+    });
+    expect(latest()).toMatchObject({ loaded: 3, inFlight: true });
+
+    act(() => tracking.update('succeeded'));
+    expect(latest()).toMatchObject({
+      uploads: [{ status: 'succeeded' }],
+      loaded: 6,
+      inFlight: false,
+    });
+
+    act(() => latest().clear());
+    expect(latest().uploads).toEqual([]);
+    expect(tracker.getUploads()).toHaveLength(1);
+  });
+
+  it('should unsubscribe from the tracker on unmount', () => {
+    const tracker = new UploadTracker();
+    const unsubscribe = vi.fn();
+    const subscribe = vi
+      .spyOn(tracker, 'subscribe')
+      .mockImplementation((listener) => {
+        const unsubscribeTracker = UploadTracker.prototype.subscribe.call(
+          tracker,
+          listener
+        );
+        return () => {
+          unsubscribe();
+          unsubscribeTracker();
+        };
+      });
+    const { results, unmount } = render(tracker);
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    unmount();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+
+    const renders = results.length;
+    track(tracker, 'UploadAvatar');
+    expect(results).toHaveLength(renders);
+  });
+});
@@ -0,0 +1,82 @@
+import { firstValueFrom } from 'rxjs';
+import { ApolloClient, execute, gql, InMemoryCache } from '@apollo/client';
+import { MockUploadLink } from '../../src/testing/MockUploadLink.js';
+import { UploadNetworkError } from '../../src/UploadHttpLink/errors.js';
+import type { UploadProgressEvent } from '../../src/UploadHttpLink/uploadProgress.js';
+
+describe('MockUploadLink', () => {
+  const query = gql`
+    mutation Upload($files: [Upload!]!, $label: String) {
+      upload(files: $files, label: $label)
+    }
+  `;
+
+  function run(link: MockUploadLink, variables: Record<string, unknown>) {
+    const client = new ApolloClient({ cache: new InMemoryCache(), link });
+    return firstValueFrom(execute(link, { query, variables }, { client }));
+  }
+
+  it('should capture decoded requests and respond in order', async () => {
+    const link = new MockUploadLink({
+      responses: [{ result: { data: { upload: 1 } } }],
+      defaultResponse: () => ({ result: { data: { upload: 2 } } }),
+    });
+    const file = new File(['avatar'], 'avatar.png', { type: 'image/png' });
+
+    await expect(
+      run(link, { files: [file, file], label: 'a' })
+    ).resolves.toEqual({ data: { upload: 1 } });
+    await expect(run(link, { files: [] })).resolves.toEqual({
+      data: { upload: 2 },
+    });
+
+    const [multipart, json] = link.requests;
+    expect(multipart).toMatchObject({
+      uri: '/graphql',
+      method: 'POST',
+      multipart: true,
+      operationName: 'Upload',
+      files: [
+        {
+          fieldName: '1',
+          name: 'avatar.png',
+          type: 'image/png',
+          size: 6,
+          paths: ['variables.files.0', 'variables.files.1'],
+        },
+      ],
+    });
+    expect(multipart.variables.label).toBe('a');
+    expect(multipart.variables.files).toEqual([
+      multipart.files[0].file,
+      multipart.files[0].file,
+    ]);
+    expect(json).toMatchObject({
+      multipart: false,
+      variables: { files: [] },
+      files: [],
+    });
+  });
+
+  it('should simulate upload progress and failures', async () => {
+    const events: Array<UploadProgressEvent> = [];
+    const link = new MockUploadLink({
+      onUploadProgress: (event) => events.push(event),
+      responses: [
+        { delay: 20, progressSteps: 2 },
+        { error: new TypeError('Failed to fetch') },
+      ],
+    });
+
+    await run(link, { files: [new Blob(['abcd'])] });
+
+    expect(events.map(({ loaded, total }) => [loaded, total])).toEqual([
+      [2, 4],
+      [4, 4],
+    ]);
+
+    await expect(run(link, { files: [new Blob(['abcd'])] })).rejects.toThrow(
+      UploadNetworkError
+    );
+  });
+});
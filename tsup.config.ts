@@ -2,7 +2,14 @@ import { defineConfig } from 'tsup';
 
 export default defineConfig(() => ({
   dts: true,
-  entry: ['src/index.ts', 'src/extractFiles/index.ts'],
+  entry: [
+    'src/index.ts',
+    'src/extractFiles/index.ts',
+    'src/node/index.ts',
+    'src/react/index.ts',
+    'src/react-native/index.ts',
+    'src/testing/index.ts',
+  ],
   splitting: false,
   sourcemap: true,
   clean: true,